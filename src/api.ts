@@ -1,59 +1,82 @@
 import axios, { AxiosError } from 'axios';
 import { buildApiUrl } from './config.js';
-import { getAccessToken } from './auth.js';
-import type { EnvConfig, FormSummary } from './types.js';
-
-const MAX_RETRIES = 3;
-const BASE_DELAY = 1000; // 1 second
+import { getAccessToken, invalidateAccessToken } from './auth.js';
+import { acquireRequestSlot } from './ratelimit.js';
+import { getRetryDecision, maxRetries } from './retry.js';
+import type { EnvConfig, FormSummary, ResourceSummary } from './types.js';
 
 export async function createApiClient(
   env: EnvConfig,
   verbose = false
 ): Promise<ReturnType<typeof axios.create>> {
   const baseURL = buildApiUrl(env.tld);
-  const token = await getAccessToken(env, verbose);
 
   const client = axios.create({
     baseURL,
     headers: {
-      Authorization: `Bearer ${token}`,
       'Content-Type': 'application/json',
     },
     timeout: 30000,
   });
 
+  // Attach a current token to each request, so a long run or a long prompt does
+  // not outlive it. Request interceptors run last-registered first, so this runs
+  // after the rate limiter below.
+  client.interceptors.request.use(async (config) => {
+    config.headers.set('Authorization', `Bearer ${await getAccessToken(env, verbose)}`);
+    return config;
+  });
+
+  // Every request, including retries, waits for the environment's rate limiter
+  client.interceptors.request.use(async (config) => {
+    await acquireRequestSlot(env);
+    return config;
+  });
+
   // Add retry interceptor
   client.interceptors.response.use(
     (response) => response,
     async (error: AxiosError) => {
       const config = error.config as typeof error.config & {
         _retryCount?: number;
+        _tokenRefreshed?: boolean;
       };
 
       if (!config) return Promise.reject(error);
 
-      config._retryCount = config._retryCount || 0;
+      // A token that expired or was revoked is replaced once and the request replayed
+      if (error.response?.status === 401 && !config._tokenRefreshed) {
+        config._tokenRefreshed = true;
+        const rejected = String(config.headers.get('Authorization') ?? '').replace(/^Bearer /, '');
+        invalidateAccessToken(env, rejected);
 
-      // Retry on 429 (rate limit) or 5xx errors
-      const shouldRetry =
-        (error.response?.status === 429 ||
-          (error.response?.status && error.response.status >= 500)) &&
-        config._retryCount < MAX_RETRIES;
+        if (verbose) {
+          console.log(`Access token for ${env.name} was rejected; retrying with a new token...`);
+        }
+        return client(config);
+      }
+
+      config._retryCount = config._retryCount || 0;
 
-      if (shouldRetry) {
+      const retry = getRetryDecision(error, config._retryCount + 1);
+      if (retry) {
         config._retryCount++;
-        const delay = BASE_DELAY * Math.pow(2, config._retryCount - 1);
 
         if (verbose) {
           console.log(
-            `Retrying request (attempt ${config._retryCount}/${MAX_RETRIES}) after ${delay}ms...`
+            `Retrying ${config.method?.toUpperCase()} ${config.url} (attempt ${config._retryCount}/${maxRetries()}) after ${retry.delay}ms: ${retry.reason}`
           );
         }
 
-        await new Promise((resolve) => setTimeout(resolve, delay));
+        await new Promise((resolve) => setTimeout(resolve, retry.delay));
         return client(config);
       }
 
+      if (verbose && config._retryCount > 0) {
+        console.log(
+          `Giving up on ${config.method?.toUpperCase()} ${config.url} after ${config._retryCount} retries`
+        );
+      }
       return Promise.reject(error);
     }
   );
@@ -70,7 +93,7 @@ export async function listForms(
     const forms: FormSummary[] = [];
     let url = `/environments/${env.envId}/forms`;
 
-    // Handle pagination
+    // Handle pagination. Each page links to the next, so pages are fetched in turn
     while (url) {
       if (verbose) {
         console.log(`Fetching: ${url}`);
@@ -106,7 +129,7 @@ export async function listForms(
 
       if (status === 401) {
         throw new Error(
-          `Authentication failed for ${env.name}: Token may have expired`
+          `Authentication failed for ${env.name}: Access token was rejected after a refresh`
         );
       } else if (status === 403) {
         throw new Error(
@@ -118,7 +141,67 @@ export async function listForms(
         throw new Error(`API error for ${env.name}: ${message}`);
       }
     }
-    throw new Error(`Network error while fetching forms from ${env.name}`);
+    // Token errors, e.g. an unreadable signing key, already explain themselves
+    throw error instanceof Error
+      ? error
+      : new Error(`Network error while fetching forms from ${env.name}`);
+  }
+}
+
+export async function listResources(
+  env: EnvConfig,
+  resourceType: string,
+  verbose = false
+): Promise<ResourceSummary[]> {
+  try {
+    const client = await createApiClient(env, verbose);
+    const resources: ResourceSummary[] = [];
+    let url = `/environments/${env.envId}/${resourceType}`;
+
+    // Handle pagination
+    while (url) {
+      if (verbose) {
+        console.log(`Fetching: ${url}`);
+      }
+
+      const response = await client.get(url);
+      const data = response.data;
+
+      const items = data._embedded?.[resourceType];
+      if (Array.isArray(items)) {
+        resources.push(
+          ...items.map((item: any) => ({ id: item.id, name: item.name }))
+        );
+      }
+
+      url = data._links?.next?.href || null;
+      if (url && url.startsWith('http')) {
+        const urlObj = new URL(url);
+        url = urlObj.pathname + urlObj.search;
+      }
+    }
+
+    return resources;
+  } catch (error) {
+    if (error instanceof AxiosError) {
+      const status = error.response?.status;
+      const message = error.response?.data?.message || error.message;
+
+      if (status === 401) {
+        throw new Error(
+          `Authentication failed for ${env.name}: Access token was rejected after a refresh`
+        );
+      } else if (status === 403) {
+        throw new Error(
+          `Access denied for ${env.name}: Insufficient permissions to list ${resourceType}`
+        );
+      } else {
+        throw new Error(`API error listing ${resourceType} in ${env.name}: ${message}`);
+      }
+    }
+    throw error instanceof Error
+      ? error
+      : new Error(`Network error while listing ${resourceType} in ${env.name}`);
   }
 }
 
@@ -137,7 +220,6 @@ export async function downloadForm(
 
     if (verbose) {
       console.log(`Making GET request to: ${client.defaults.baseURL}${url}`);
-      console.log(`Authorization header: Bearer ${client.defaults.headers.Authorization?.toString().substring(0, 20)}...`);
     }
 
     const response = await client.get(url);
@@ -154,7 +236,7 @@ export async function downloadForm(
 
       if (status === 401) {
         throw new Error(
-          `Authentication failed for ${env.name}: Token may have expired`
+          `Authentication failed for ${env.name}: Access token was rejected after a refresh`
         );
       } else if (status === 403) {
         throw new Error(
@@ -166,7 +248,9 @@ export async function downloadForm(
         throw new Error(`API error downloading form ${formId} from ${env.name}: ${message}`);
       }
     }
-    throw new Error(`Network error while downloading form ${formId} from ${env.name}`);
+    throw error instanceof Error
+      ? error
+      : new Error(`Network error while downloading form ${formId} from ${env.name}`);
   }
 }
 
@@ -201,7 +285,7 @@ export async function uploadForm(
 
       if (status === 401) {
         throw new Error(
-          `Authentication failed for ${env.name}: Token may have expired`
+          `Authentication failed for ${env.name}: Access token was rejected after a refresh`
         );
       } else if (status === 403) {
         throw new Error(
@@ -215,6 +299,107 @@ export async function uploadForm(
         throw new Error(`API error uploading form "${formData.name}" to ${env.name}: ${message}`);
       }
     }
-    throw new Error(`Network error while uploading form "${formData.name}" to ${env.name}`);
+    throw error instanceof Error
+      ? error
+      : new Error(`Network error while uploading form "${formData.name}" to ${env.name}`);
+  }
+}
+
+export async function updateForm(
+  env: EnvConfig,
+  formId: string,
+  formData: any,
+  verbose = false
+): Promise<any> {
+  if (verbose) {
+    console.log(`Updating form "${formData.name}" (${formId}) in environment ${env.name}...`);
+  }
+
+  try {
+    const client = await createApiClient(env, verbose);
+    const url = `/environments/${env.envId}/forms/${formId}`;
+
+    if (verbose) {
+      console.log(`Making PUT request to: ${client.defaults.baseURL}${url}`);
+    }
+
+    const response = await client.put(url, formData);
+
+    if (verbose) {
+      console.log(`Successfully updated form "${formData.name}"`);
+    }
+
+    return response.data;
+  } catch (error) {
+    if (error instanceof AxiosError) {
+      const status = error.response?.status;
+      const message = error.response?.data?.message || error.message;
+
+      if (status === 401) {
+        throw new Error(
+          `Authentication failed for ${env.name}: Access token was rejected after a refresh`
+        );
+      } else if (status === 403) {
+        throw new Error(
+          `Access denied for ${env.name}: Insufficient permissions to update forms`
+        );
+      } else if (status === 400) {
+        throw new Error(`Invalid form data for "${formData.name}": ${message}`);
+      } else if (status === 404) {
+        throw new Error(`Form ${formId} not found in ${env.name}`);
+      } else {
+        throw new Error(`API error updating form "${formData.name}" in ${env.name}: ${message}`);
+      }
+    }
+    throw error instanceof Error
+      ? error
+      : new Error(`Network error while updating form "${formData.name}" in ${env.name}`);
+  }
+}
+
+export async function deleteForm(
+  env: EnvConfig,
+  formId: string,
+  verbose = false
+): Promise<void> {
+  if (verbose) {
+    console.log(`Deleting form ${formId} from environment ${env.name}...`);
+  }
+
+  try {
+    const client = await createApiClient(env, verbose);
+    const url = `/environments/${env.envId}/forms/${formId}`;
+
+    if (verbose) {
+      console.log(`Making DELETE request to: ${client.defaults.baseURL}${url}`);
+    }
+
+    await client.delete(url);
+
+    if (verbose) {
+      console.log(`Successfully deleted form ${formId}`);
+    }
+  } catch (error) {
+    if (error instanceof AxiosError) {
+      const status = error.response?.status;
+      const message = error.response?.data?.message || error.message;
+
+      if (status === 401) {
+        throw new Error(
+          `Authentication failed for ${env.name}: Access token was rejected after a refresh`
+        );
+      } else if (status === 403) {
+        throw new Error(
+          `Access denied for ${env.name}: Insufficient permissions to delete forms`
+        );
+      } else if (status === 404) {
+        throw new Error(`Form ${formId} not found in ${env.name}`);
+      } else {
+        throw new Error(`API error deleting form ${formId} from ${env.name}: ${message}`);
+      }
+    }
+    throw error instanceof Error
+      ? error
+      : new Error(`Network error while deleting form ${formId} from ${env.name}`);
   }
 }
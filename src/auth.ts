@@ -1,14 +1,18 @@
 import axios, { AxiosError } from 'axios';
 import { buildAuthUrl } from './config.js';
+import { createClientAssertion, CLIENT_ASSERTION_TYPE } from './jwt.js';
 import type { EnvConfig, TokenResponse, TokenCache } from './types.js';
 
 const tokenCache = new Map<string, TokenCache>();
 
+// Token requests in progress, so parallel API calls share one request
+const pendingTokens = new Map<string, Promise<string>>();
+
 export async function getAccessToken(
   env: EnvConfig,
   verbose = false
 ): Promise<string> {
-  const cacheKey = `${env.envId}:${env.clientId}`;
+  const cacheKey = tokenCacheKey(env);
   const cached = tokenCache.get(cacheKey);
 
   // Check if we have a valid cached token
@@ -20,27 +24,65 @@ export async function getAccessToken(
     return cached.token;
   }
 
+  let pending = pendingTokens.get(cacheKey);
+  if (!pending) {
+    pending = requestAccessToken(env, verbose).finally(() => {
+      pendingTokens.delete(cacheKey);
+    });
+    pendingTokens.set(cacheKey, pending);
+  }
+  return pending;
+}
+
+/**
+ * Drops a cached token the API rejected, so the next call requests a new one.
+ * A token that has already been replaced is left alone.
+ */
+export function invalidateAccessToken(env: EnvConfig, token: string): void {
+  const cacheKey = tokenCacheKey(env);
+  if (tokenCache.get(cacheKey)?.token === token) {
+    tokenCache.delete(cacheKey);
+  }
+}
+
+function tokenCacheKey(env: EnvConfig): string {
+  return `${env.envId}:${env.clientId}`;
+}
+
+async function requestAccessToken(env: EnvConfig, verbose: boolean): Promise<string> {
+  const cacheKey = tokenCacheKey(env);
+
+  const authMethod = env.authMethod ?? 'client_secret_basic';
   if (verbose) {
-    console.log(`Requesting new token for ${env.name}...`);
+    console.log(`Requesting new token for ${env.name} (${authMethod})...`);
   }
 
   const authUrl = buildAuthUrl(env.envId, env.tld);
-  const credentials = Buffer.from(
-    `${env.clientId}:${env.clientSecret}`
-  ).toString('base64');
+  const body = new URLSearchParams({ grant_type: 'client_credentials' });
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/x-www-form-urlencoded',
+  };
+
+  if (authMethod === 'client_secret_basic') {
+    const credentials = Buffer.from(
+      `${env.clientId}:${env.clientSecret}`
+    ).toString('base64');
+    headers.Authorization = `Basic ${credentials}`;
+  } else if (authMethod === 'client_secret_post') {
+    body.set('client_id', env.clientId);
+    body.set('client_secret', env.clientSecret ?? '');
+  } else {
+    // The token endpoint is the assertion's audience
+    body.set('client_id', env.clientId);
+    body.set('client_assertion_type', CLIENT_ASSERTION_TYPE);
+    body.set('client_assertion', createClientAssertion(env, authUrl));
+  }
 
   try {
-    const response = await axios.post<TokenResponse>(
-      authUrl,
-      'grant_type=client_credentials',
-      {
-        headers: {
-          Authorization: `Basic ${credentials}`,
-          'Content-Type': 'application/x-www-form-urlencoded',
-        },
-        timeout: 10000,
-      }
-    );
+    const response = await axios.post<TokenResponse>(authUrl, body.toString(), {
+      headers,
+      timeout: 10000,
+    });
 
     const { access_token, expires_in } = response.data;
     const expiresAt = Date.now() + expires_in * 1000;
@@ -0,0 +1,115 @@
+import { readFile, writeFile, mkdir } from 'fs/promises';
+import { join } from 'path';
+import { downloadForm } from './api.js';
+import { canonicalJson } from './json.js';
+import { resolveFormsDir } from './fsio.js';
+import { createSerialQueue } from './concurrency.js';
+import type { EnvConfig, BackupContext, BackupRun } from './types.js';
+
+export const DEFAULT_BACKUP_DIR = './backups';
+const RUN_FILENAME = 'run.json';
+
+// Parallel uploads record entries concurrently; each write saves the latest state
+const writeQueue = createSerialQueue();
+
+export function startBackupRun(env: EnvConfig, backupDir = DEFAULT_BACKUP_DIR): BackupContext {
+  // Nothing is written until the first remote write, so read-only runs leave no folder
+  return {
+    dir: backupDir,
+    run: {
+      id: new Date().toISOString().replace(/[:.]/g, '-'),
+      environment: { name: env.name, id: env.envId },
+      startedAt: new Date().toISOString(),
+      entries: [],
+    },
+  };
+}
+
+export async function snapshotForm(
+  backup: BackupContext,
+  env: EnvConfig,
+  formId: string,
+  name: string,
+  verbose = false
+): Promise<void> {
+  // Only the first write to a form in a run captures its state from before the
+  // run; a later snapshot would overwrite it with the run's own changes
+  if (backup.run.entries.some((entry) => entry.formId === formId)) {
+    return;
+  }
+
+  const remoteFormData = await downloadForm(env, formId, verbose);
+  const dir = runDir(backup.dir, env, backup.run.id);
+  const snapshot = `${formId}.json`;
+
+  await mkdir(dir, { recursive: true });
+  await writeFile(join(dir, snapshot), canonicalJson(remoteFormData), 'utf-8');
+
+  if (verbose) {
+    console.log(`Saved backup of "${name}" to: ${join(dir, snapshot)}`);
+  }
+
+  backup.run.entries.push({ formId, name, action: 'updated', snapshot });
+  await writeBackupRun(backup, env);
+}
+
+export async function recordCreatedForm(
+  backup: BackupContext,
+  env: EnvConfig,
+  formId: string,
+  name: string
+): Promise<void> {
+  backup.run.entries.push({ formId, name, action: 'created' });
+  await writeBackupRun(backup, env);
+}
+
+export async function readBackupRun(
+  backupDir: string,
+  env: EnvConfig,
+  runId: string
+): Promise<BackupRun> {
+  const runPath = join(runDir(backupDir, env, runId), RUN_FILENAME);
+
+  let content: string;
+  try {
+    content = await readFile(runPath, 'utf-8');
+  } catch {
+    throw new Error(`Backup run ${runId} not found for ${env.name} (looked in ${runPath})`);
+  }
+
+  try {
+    const run = JSON.parse(content);
+    if (!run || !Array.isArray(run.entries)) {
+      throw new Error('missing "entries" array');
+    }
+    return run as BackupRun;
+  } catch (error) {
+    throw new Error(
+      `Invalid backup run ${runPath}: ${error instanceof Error ? error.message : 'Unknown error'
+      }`
+    );
+  }
+}
+
+export async function readSnapshot(
+  backupDir: string,
+  env: EnvConfig,
+  runId: string,
+  snapshot: string
+): Promise<any> {
+  const content = await readFile(join(runDir(backupDir, env, runId), snapshot), 'utf-8');
+  return JSON.parse(content);
+}
+
+async function writeBackupRun(backup: BackupContext, env: EnvConfig): Promise<void> {
+  const dir = runDir(backup.dir, env, backup.run.id);
+  await writeQueue(async () => {
+    await mkdir(dir, { recursive: true });
+    await writeFile(join(dir, RUN_FILENAME), canonicalJson(backup.run), 'utf-8');
+  });
+}
+
+function runDir(backupDir: string, env: EnvConfig, runId: string): string {
+  // Runs are grouped per environment, e.g. backups/qa-eu/<run id>/
+  return join(resolveFormsDir(backupDir, env.name), runId);
+}
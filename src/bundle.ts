@@ -0,0 +1,126 @@
+import { readFile, writeFile } from 'fs/promises';
+import { canonicalJson } from './json.js';
+import { validateForm, formatValidationIssues } from './validate.js';
+import type { EnvConfig, FormsBundle, BundleEntry, LocalFormFile } from './types.js';
+
+export const TOOL_VERSION = '1.0.0';
+export const BUNDLE_FORMAT = 'p1-forms-bundle';
+const BUNDLE_VERSION = 1;
+
+export function createBundle(env: EnvConfig, forms: BundleEntry[]): FormsBundle {
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    toolVersion: TOOL_VERSION,
+    sourceEnvironment: { name: env.name, id: env.envId },
+    exportedAt: new Date().toISOString(),
+    forms,
+  };
+}
+
+export async function writeBundle(
+  path: string,
+  bundle: FormsBundle,
+  verbose = false
+): Promise<void> {
+  await writeFile(path, canonicalJson(bundle), 'utf-8');
+
+  if (verbose) {
+    console.log(`Wrote bundle with ${bundle.forms.length} form(s) to: ${path}`);
+  }
+}
+
+export async function readBundle(path: string, verbose = false): Promise<FormsBundle> {
+  let bundle: any;
+  try {
+    bundle = JSON.parse(await readFile(path, 'utf-8'));
+  } catch (error) {
+    throw new Error(
+      `Failed to read bundle ${path}: ${error instanceof Error ? error.message : 'Unknown error'
+      }`
+    );
+  }
+
+  if (!bundle || bundle.format !== BUNDLE_FORMAT) {
+    throw new Error(`${path} is not a p1-forms bundle`);
+  }
+  if (typeof bundle.version !== 'number' || bundle.version > BUNDLE_VERSION) {
+    throw new Error(
+      `Unsupported bundle version ${bundle.version} in ${path}; this tool reads up to version ${BUNDLE_VERSION}`
+    );
+  }
+  if (!Array.isArray(bundle.forms)) {
+    throw new Error(`Bundle ${path} has no "forms" array`);
+  }
+  validateBundleContents(bundle, path);
+
+  if (verbose) {
+    console.log(
+      `Loaded bundle with ${bundle.forms.length} form(s) exported from ${bundle.sourceEnvironment?.name} at ${bundle.exportedAt}`
+    );
+  }
+
+  return bundle as FormsBundle;
+}
+
+// Import trusts these fields, so a hand-edited bundle must fail here rather
+// than halfway through an import
+function validateBundleContents(bundle: any, path: string): void {
+  const source = bundle.sourceEnvironment;
+  if (!source || typeof source.name !== 'string' || typeof source.id !== 'string') {
+    throw new Error(`Bundle ${path} has no "sourceEnvironment" with a string name and id`);
+  }
+
+  const filenames = new Set<string>();
+  bundle.forms.forEach((entry: any, index: number) => {
+    const label = `Bundle ${path} entry ${index}`;
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+      throw new Error(`${label} is not an object`);
+    }
+    if (typeof entry.filename !== 'string' || entry.filename.trim() === '') {
+      throw new Error(`${label} has no "filename"`);
+    }
+    if (filenames.has(entry.filename)) {
+      throw new Error(`${label} repeats filename ${entry.filename}`);
+    }
+    filenames.add(entry.filename);
+    if (!entry.form || typeof entry.form !== 'object' || Array.isArray(entry.form)) {
+      throw new Error(`${label} (${entry.filename}) has no "form" object`);
+    }
+    if (entry.sourceFormId !== undefined && typeof entry.sourceFormId !== 'string') {
+      throw new Error(`${label} (${entry.filename}) has a non-string "sourceFormId"`);
+    }
+  });
+}
+
+export function isBundle(source: unknown): source is FormsBundle {
+  return (
+    !!source &&
+    typeof source === 'object' &&
+    (source as FormsBundle).format === BUNDLE_FORMAT
+  );
+}
+
+export function filterBundle(bundle: FormsBundle, filenames: string[]): FormsBundle {
+  return {
+    ...bundle,
+    forms: bundle.forms.filter((entry) => filenames.includes(entry.filename)),
+  };
+}
+
+export function bundleToLocalForms(bundle: FormsBundle): LocalFormFile[] {
+  return bundle.forms.map((entry) => {
+    const name = entry.filename.replace('.json', '');
+    const issues = validateForm(entry.form);
+    if (issues.length > 0) {
+      return {
+        filename: entry.filename,
+        name,
+        isValid: false,
+        error: formatValidationIssues(issues),
+        issues,
+      };
+    }
+    return { filename: entry.filename, name, isValid: true };
+  });
+}
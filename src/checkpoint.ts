@@ -0,0 +1,96 @@
+import { readFile, writeFile, mkdir, rm } from 'fs/promises';
+import { join } from 'path';
+import { canonicalJson } from './json.js';
+import { createSerialQueue } from './concurrency.js';
+import { CHECKPOINT_PREFIX } from './constants.js';
+import { slugify } from './naming.js';
+import type { Checkpoint, CheckpointOperation, EnvConfig } from './types.js';
+
+// Parallel workers mark items concurrently; each write saves the latest state
+const writeQueue = createSerialQueue();
+
+// One file per operation and environment, so runs against several targets
+// can each be resumed
+function checkpointPath(
+  dir: string,
+  operation: CheckpointOperation,
+  environment: Checkpoint['environment']
+): string {
+  const envSlug = slugify(environment.name) || environment.id;
+  return join(dir, `${CHECKPOINT_PREFIX}${operation}-${envSlug}.json`);
+}
+
+export async function loadCheckpoint(
+  dir: string,
+  operation: CheckpointOperation,
+  env: EnvConfig,
+  resume = false
+): Promise<Checkpoint> {
+  const fresh: Checkpoint = {
+    operation,
+    environment: { name: env.name, id: env.envId },
+    startedAt: new Date().toISOString(),
+    completed: [],
+  };
+  if (!resume) {
+    return fresh;
+  }
+
+  const path = checkpointPath(dir, operation, fresh.environment);
+  let content: string;
+  try {
+    content = await readFile(path, 'utf-8');
+  } catch {
+    console.log(`No checkpoint found in ${dir}; starting from the beginning`);
+    return fresh;
+  }
+
+  let checkpoint: Checkpoint;
+  try {
+    checkpoint = JSON.parse(content);
+    if (!checkpoint || !Array.isArray(checkpoint.completed)) {
+      throw new Error('missing "completed" array');
+    }
+  } catch (error) {
+    throw new Error(
+      `Invalid checkpoint ${path}: ${error instanceof Error ? error.message : 'Unknown error'
+      }`
+    );
+  }
+
+  if (checkpoint.operation !== operation || checkpoint.environment?.id !== env.envId) {
+    throw new Error(
+      `Checkpoint ${path} belongs to an ${checkpoint.operation} of ${checkpoint.environment?.name}, not an ${operation} of ${env.name}`
+    );
+  }
+
+  return checkpoint;
+}
+
+export async function markCompleted(
+  dir: string,
+  checkpoint: Checkpoint,
+  item: string
+): Promise<void> {
+  if (!checkpoint.completed.includes(item)) {
+    checkpoint.completed.push(item);
+  }
+  await writeQueue(async () => {
+    await mkdir(dir, { recursive: true });
+    await writeFile(
+      checkpointPath(dir, checkpoint.operation, checkpoint.environment),
+      canonicalJson(checkpoint),
+      'utf-8'
+    );
+  });
+}
+
+export async function clearCheckpoint(
+  dir: string,
+  operation: CheckpointOperation,
+  env: EnvConfig
+): Promise<void> {
+  await writeQueue(() =>
+    rm(checkpointPath(dir, operation, { name: env.name, id: env.envId }), { force: true })
+  );
+}
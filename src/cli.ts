@@ -1,17 +1,80 @@
 #!/usr/bin/env node
 
-import { Command } from 'commander';
+import { basename } from 'path';
+import { Command, Option, InvalidArgumentError } from 'commander';
 import ora from 'ora';
-import { loadConfig } from './config.js';
-import { listForms, downloadForms, uploadForms } from './forms.js';
-import { scanFormsDir } from './fsio.js';
+import {
+  loadConfig,
+  getConfigPath,
+  findEnvironment,
+  CONFIG_PATH_ENV_VAR,
+  encryptConfigFile,
+  decryptConfigFile,
+} from './config.js';
+import { PASSPHRASE_ENV_VAR } from './secrets.js';
+import { DEFAULT_FILENAME_TEMPLATE } from './naming.js';
+import {
+  TOOL_VERSION,
+  readBundle,
+  isBundle,
+  filterBundle,
+  bundleToLocalForms,
+} from './bundle.js';
+import {
+  listForms,
+  downloadForms,
+  uploadForms,
+  uploadFormsToEnvironments,
+  promoteForms,
+  findForm,
+  diffLocalForm,
+  diffRemoteForms,
+  getFormsStatus,
+  planUploadToEnvironments,
+  setExportSettings,
+  exportBundle,
+  rollbackRun,
+} from './forms.js';
+import { DEFAULT_BACKUP_DIR } from './backup.js';
+import { CONFLICT_POLICIES, DEFAULT_CONFLICT_POLICY } from './conflicts.js';
+import { isInterrupted } from './interrupt.js';
+import { DEFAULT_CONCURRENCY } from './concurrency.js';
+import { setRetrySettings } from './retry.js';
+import { scanFormsDir, resolveFormsDir, DEFAULT_FORMS_DIR } from './fsio.js';
 import {
   selectMode,
   selectEnvironment,
+  selectTargetEnvironments,
   selectForms,
   selectLocalForms,
+  promptForPassphrase,
 } from './ui.js';
-import type { CliOptions } from './types.js';
+import type {
+  CliOptions,
+  EnvConfig,
+  FormSummary,
+  LocalFormFile,
+  DownloadOptions,
+  UploadOptions,
+  UploadResult,
+  EnvironmentUploadResult,
+  ListCommandOptions,
+  ExportCommandOptions,
+  ImportCommandOptions,
+  PromoteCommandOptions,
+  PromoteOptions,
+  PromoteResult,
+  DiffCommandOptions,
+  DiffEntry,
+  StatusCommandOptions,
+  StatusEntry,
+  StatusReport,
+  ValidateCommandOptions,
+  ImportPlan,
+  PlanAction,
+  UploadSource,
+  RollbackCommandOptions,
+} from './types.js';
 
 // UI Helpers for better formatting
 const colors = {
@@ -46,35 +109,197 @@ const formatSubSection = (title: string): string =>
 
 const program = new Command();
 
-program
-  .name('p1-forms')
-  .description('CLI tool for exporting and importing PingOne Forms')
-  .version('1.0.0')
-  .option('-v, --verbose', 'Enable verbose logging')
-  .action(async (options: CliOptions) => {
+function runCommand<T extends CliOptions>(
+  handler: (options: T) => Promise<void>,
+  errorExitCode = 1
+): (options: T, command: Command) => Promise<void> {
+  return async (_options: T, command: Command) => {
     try {
-      await main(options);
+      await handler(command.optsWithGlobals<T>());
     } catch (error) {
       console.error(
         'Error:',
         error instanceof Error ? error.message : 'Unknown error'
       );
-      process.exit(1);
+      process.exit(errorExitCode);
     }
-  });
+  };
+}
 
-async function main(options: CliOptions = {}): Promise<void> {
-  const verbose = options.verbose || false;
+const collect = (value: string, previous: string[] = []): string[] => [
+  ...previous,
+  value,
+];
 
-  // Welcome message
-  console.log(formatTitle('🚀 PingOne Forms CLI'));
-  console.log('Export and import PingOne Forms between environments');
-  console.log('');
+const parsePositiveInteger = (value: string): number => {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new InvalidArgumentError('Must be a positive integer.');
+  }
+  return parsed;
+};
 
-  // Load and validate configuration
+program
+  .name('p1-forms')
+  .description('CLI tool for exporting and importing PingOne Forms')
+  .version(TOOL_VERSION)
+  .option('-v, --verbose', 'Enable verbose logging')
+  .option('-c, --config <path>', `Path to environments.json (or ${CONFIG_PATH_ENV_VAR})`)
+  .option('--forms-dir <path>', 'Directory holding form JSON files', DEFAULT_FORMS_DIR)
+  .option('--per-env-dirs', 'Use one subfolder per environment, e.g. forms/dev-us/')
+  .option(
+    '--filename-template <template>',
+    'Exported filename template using {name}, {id} and {env}',
+    DEFAULT_FILENAME_TEMPLATE
+  )
+  .option('--dry-run', 'Preview imports without writing to PingOne')
+  .option('--reverse-vars', 'Replace known variable values with {{ var.name }} placeholders on export')
+  .option('--backup-dir <path>', 'Directory for snapshots taken before remote writes', DEFAULT_BACKUP_DIR)
+  .option('--atomic', 'Roll back the whole import if any form fails')
+  .option('--resume', 'Skip forms completed by an interrupted export or import')
+  .option(
+    '--concurrency <n>',
+    'Number of forms to download or upload in parallel',
+    parsePositiveInteger,
+    DEFAULT_CONCURRENCY
+  )
+  .addOption(
+    new Option('--on-conflict <policy>', 'What to do when an imported form\'s name already exists')
+      .choices(CONFLICT_POLICIES)
+      .default(DEFAULT_CONFLICT_POLICY)
+  )
+  .action(runCommand(main));
+
+program
+  .command('list')
+  .description('List the forms in an environment')
+  .requiredOption('-e, --env <name>', 'Environment name or ID')
+  .option('--json', 'Print the forms as JSON')
+  .action(runCommand(listCommand));
+
+program
+  .command('export')
+  .description('Export forms from an environment without prompting')
+  .requiredOption('-e, --env <name>', 'Source environment name or ID')
+  .option('-f, --form <name|id>', 'Form name or ID to export (repeatable)', collect)
+  .option('-a, --all', 'Export every form in the environment')
+  .option('--bundle <path>', 'Write the forms to a single bundle file instead of the forms directory')
+  .option('--resume', 'Skip forms exported by an interrupted run')
+  .action(runCommand(exportCommand));
+
+program
+  .command('promote')
+  .description('Copy forms directly from one environment to another')
+  .requiredOption('--from <name>', 'Source environment name or ID')
+  .requiredOption('--to <name>', 'Target environment name or ID')
+  .option('-f, --form <name|id>', 'Form name or ID to promote (repeatable)', collect)
+  .option('-a, --all', 'Promote every form in the source environment')
+  .option('--save', 'Also save the promoted forms to the forms directory')
+  .action(runCommand(promoteCommand));
+
+program
+  .command('diff')
+  .description(
+    'Show differences between a local form file and its remote form, or between two environments'
+  )
+  .option('-e, --env <name>', 'Environment to compare the local file against')
+  .option('--file <path>', 'Form file to compare')
+  .option('--from <name>', 'Source environment for an environment comparison')
+  .option('--to <name>', 'Target environment for an environment comparison')
+  .option('-f, --form <name|id>', 'Remote form name or ID (defaults to the file\'s form name)')
+  // Exit code 1 is reserved for "differences found", so failures use 2
+  .action(runCommand(diffCommand, 2));
+
+program
+  .command('status')
+  .description('Report drift between the forms directory and an environment')
+  .requiredOption('-e, --env <name>', 'Environment name or ID')
+  .option('--json', 'Print the report as JSON')
+  .action(runCommand(statusCommand));
+
+program
+  .command('validate')
+  .description('Validate form files in the forms directory')
+  .option('-f, --file <path>', 'Form file to validate (repeatable, defaults to all)', collect)
+  .option('-e, --env <name>', 'Environment whose folder to validate (with --per-env-dirs)')
+  .option('--json', 'Print the results as JSON')
+  .action(runCommand(validateCommand));
+
+const configCommand = program
+  .command('config')
+  .description('Manage the environments config file');
+
+configCommand
+  .command('encrypt')
+  .description(`Encrypt client secrets with a passphrase (or ${PASSPHRASE_ENV_VAR})`)
+  .action(runCommand(encryptConfigCommand));
+
+configCommand
+  .command('decrypt')
+  .description('Decrypt client secrets back to plaintext')
+  .action(runCommand(decryptConfigCommand));
+
+program
+  .command('rollback')
+  .description('Restore every form touched by an import or promote run to its snapshot')
+  .requiredOption('-e, --env <name>', 'Environment the run wrote to')
+  .requiredOption('--run <id>', 'Backup run ID printed at the end of the run')
+  .action(runCommand(rollbackCommand));
+
+program
+  .command('import')
+  .description('Import forms into an environment without prompting')
+  .requiredOption('-e, --env <name>', 'Target environment name or ID (repeatable)', collect)
+  .option('-f, --file <path>', 'Form file in the forms directory to import (repeatable)', collect)
+  .option('-a, --all', 'Import every valid form file in the forms directory')
+  .option('--bundle <path>', 'Import forms from a bundle file instead of the forms directory')
+  .option('--dry-run', 'Print the import plan without writing to PingOne')
+  .option('--json', 'Print the import plan as JSON (with --dry-run)')
+  .option('--atomic', 'Import nothing unless every form succeeds, rolling back on failure')
+  .option('--resume', 'Skip forms imported by an interrupted run')
+  .action(runCommand(importCommand));
+
+async function resolvePassphrase(confirm = false): Promise<string> {
+  const passphrase = process.env[PASSPHRASE_ENV_VAR];
+  if (passphrase) {
+    return passphrase;
+  }
+
+  if (!process.stdin.isTTY) {
+    throw new Error(
+      `Set ${PASSPHRASE_ENV_VAR} to provide the passphrase in non-interactive runs`
+    );
+  }
+  return promptForPassphrase(confirm);
+}
+
+function formsDirFor(options: CliOptions, environment: EnvConfig): string {
+  return resolveFormsDir(
+    options.formsDir,
+    options.perEnvDirs ? environment.name : undefined
+  );
+}
+
+function importFormsDir(options: CliOptions, targets: EnvConfig[]): string {
+  const [first] = targets;
+  if (!first) {
+    throw new Error('Select at least one target environment');
+  }
+  // Each target would read from its own folder, so there is no single source set
+  if (options.perEnvDirs && targets.length > 1) {
+    throw new Error('--per-env-dirs cannot be combined with more than one target environment');
+  }
+  return formsDirFor(options, first);
+}
+
+async function loadEnvironments(options: CliOptions): Promise<EnvConfig[]> {
+  const verbose = options.verbose || false;
   let environments;
   try {
-    environments = loadConfig();
+    const config = await loadConfig(options.config, () => resolvePassphrase());
+    environments = config.environments;
+    setExportSettings(config.export);
+    setRetrySettings(config.retry);
     if (verbose) {
       console.log(formatInfo(`Loaded ${environments.length} environment(s)`));
     }
@@ -88,6 +313,20 @@ async function main(options: CliOptions = {}): Promise<void> {
     throw new Error('No environments found in configuration');
   }
 
+  return environments;
+}
+
+async function main(options: CliOptions = {}): Promise<void> {
+  const verbose = options.verbose || false;
+
+  // Welcome message
+  console.log(formatTitle('🚀 PingOne Forms CLI'));
+  console.log('Export and import PingOne Forms between environments');
+  console.log('');
+
+  // Load and validate configuration
+  const environments = await loadEnvironments(options);
+
   // Select operation mode
   console.log(formatSection('Operation Selection'));
   const mode = await selectMode();
@@ -95,23 +334,50 @@ async function main(options: CliOptions = {}): Promise<void> {
     console.log(formatInfo(`Selected mode: ${mode}`));
   }
 
+  if (mode === 'promote') {
+    await handlePromote(environments, verbose, options.backupDir ?? DEFAULT_BACKUP_DIR);
+    return;
+  }
+
   // Select environment
   console.log(formatSection('Environment Selection'));
+  if (mode === 'import') {
+    const targets = await selectTargetEnvironments(environments);
+    if (verbose) {
+      console.log(
+        formatInfo(`Selected environment(s): ${targets.map((env) => env.name).join(', ')}`)
+      );
+    }
+
+    await handleImport(targets, verbose, options.dryRun || false, {
+      formsDir: importFormsDir(options, targets),
+      backupDir: options.backupDir ?? DEFAULT_BACKUP_DIR,
+      atomic: options.atomic || false,
+      resume: options.resume || false,
+      conflictPolicy: options.onConflict ?? DEFAULT_CONFLICT_POLICY,
+      concurrency: options.concurrency ?? DEFAULT_CONCURRENCY,
+    });
+    return;
+  }
+
   const environment = await selectEnvironment(environments, mode);
   if (verbose) {
     console.log(formatInfo(`Selected environment: ${environment.name}`));
   }
 
-  if (mode === 'export') {
-    await handleExport(environment, verbose);
-  } else {
-    await handleImport(environment, verbose);
-  }
+  await handleExport(environment, verbose, {
+    formsDir: formsDirFor(options, environment),
+    filenameTemplate: options.filenameTemplate ?? DEFAULT_FILENAME_TEMPLATE,
+    reverseVars: options.reverseVars || false,
+    resume: options.resume || false,
+    concurrency: options.concurrency ?? DEFAULT_CONCURRENCY,
+  });
 }
 
 async function handleExport(
-  environment: ReturnType<typeof loadConfig>[0],
-  verbose: boolean
+  environment: EnvConfig,
+  verbose: boolean,
+  options: DownloadOptions
 ): Promise<void> {
   console.log(formatSection('Export Forms'));
   if (verbose) {
@@ -120,126 +386,961 @@ async function handleExport(
 
   const spinner = ora('Loading forms from PingOne...').start();
 
+  let forms: FormSummary[];
   try {
-    const forms = await listForms(environment, verbose);
+    forms = await listForms(environment, verbose);
     spinner.stop();
+  } catch (error) {
+    spinner.fail('Failed to load forms');
+    throw error;
+  }
 
-    if (forms.length === 0) {
-      console.log('No forms found in the selected environment.');
-      return;
-    }
+  if (forms.length === 0) {
+    console.log('No forms found in the selected environment.');
+    return;
+  }
 
-    console.log(`Found ${forms.length} form(s) in ${environment.name}`);
-    const selectedForms = await selectForms(forms);
+  console.log(`Found ${forms.length} form(s) in ${environment.name}`);
+  const selectedForms = await selectForms(forms);
 
-    if (selectedForms.length === 0) {
-      console.log('No forms selected. Exiting.');
-      return;
-    }
+  if (selectedForms.length === 0) {
+    console.log('No forms selected. Exiting.');
+    return;
+  }
 
-    // Download the selected forms
-    console.log(formatSection('Downloading Forms'));
-    console.log(`Downloading ${selectedForms.length} form(s) from ${environment.name}...`);
+  await runExport(environment, selectedForms, verbose, { ...options, interactive: true });
+}
 
-    const downloadSpinner = ora('Downloading forms...').start();
+async function runExport(
+  environment: EnvConfig,
+  selectedForms: FormSummary[],
+  verbose: boolean,
+  options: DownloadOptions
+): Promise<void> {
+  // Download the selected forms
+  console.log(formatSection('Downloading Forms'));
+  console.log(`Downloading ${selectedForms.length} form(s) from ${environment.name}...`);
 
-    try {
-      // Stop spinner before downloads to allow for prompts
-      downloadSpinner.stop();
-
-      const downloadedFiles = await downloadForms(environment, selectedForms, verbose);
-
-      // Show success message
-      console.log(formatSuccess('Forms downloaded successfully!'));
-
-      // Print summary
-      console.log(formatSection('Export Complete'));
-      console.log(formatSubSection('Environment'));
-      console.log(`  ${environment.name}`);
-      console.log(formatSubSection(`Downloaded Forms (${downloadedFiles.length})`));
-      selectedForms.forEach((form, index) => {
-        const filePath = downloadedFiles[index];
-        if (filePath) {
-          console.log(formatSuccess(`${form.name} → ${filePath}`));
-        }
-      });
-      console.log(`\nForms saved to ./forms/ directory`);
+  let downloadedFiles: string[];
+  try {
+    downloadedFiles = await downloadForms(
+      environment,
+      selectedForms,
+      verbose,
+      options
+    );
+  } catch (error) {
+    console.log(formatError('Failed to download forms'));
+    throw error;
+  }
 
-    } catch (error) {
-      console.log(formatError('Failed to download forms'));
-      throw error;
-    }
+  // Show success message
+  if (!isInterrupted()) {
+    console.log(formatSuccess('Forms downloaded successfully!'));
+  }
+
+  // Print summary
+  console.log(formatSection(isInterrupted() ? 'Export Interrupted' : 'Export Complete'));
+  console.log(formatSubSection('Environment'));
+  console.log(`  ${environment.name}`);
+  console.log(formatSubSection(`Downloaded Forms (${downloadedFiles.length})`));
+  downloadedFiles.forEach((filePath) => {
+    console.log(formatSuccess(filePath));
+  });
+  console.log(`\nForms saved to ${options.formsDir ?? DEFAULT_FORMS_DIR} directory`);
+
+  if (isInterrupted()) {
+    console.log(formatInfo('Run the export again with --resume to continue where it stopped.'));
+  }
+}
+
+async function handlePromote(
+  environments: EnvConfig[],
+  verbose: boolean,
+  backupDir = DEFAULT_BACKUP_DIR
+): Promise<void> {
+  console.log(formatSection('Environment Selection'));
+  const source = await selectEnvironment(environments, 'export');
+  const target = await selectEnvironment(
+    environments.filter((env) => env !== source),
+    'import'
+  );
+  if (verbose) {
+    console.log(formatInfo(`Promoting from ${source.name} to ${target.name}`));
+  }
+
+  const spinner = ora('Loading forms from PingOne...').start();
+
+  let forms: FormSummary[];
+  try {
+    forms = await listForms(source, verbose);
+    spinner.stop();
   } catch (error) {
     spinner.fail('Failed to load forms');
     throw error;
   }
+
+  if (forms.length === 0) {
+    console.log('No forms found in the selected environment.');
+    return;
+  }
+
+  console.log(`Found ${forms.length} form(s) in ${source.name}`);
+  const selectedForms = await selectForms(forms);
+
+  if (selectedForms.length === 0) {
+    console.log('No forms selected. Exiting.');
+    return;
+  }
+
+  await runPromote(source, target, selectedForms, verbose, { interactive: true, backupDir });
+}
+
+async function runPromote(
+  source: EnvConfig,
+  target: EnvConfig,
+  selectedForms: FormSummary[],
+  verbose: boolean,
+  options: PromoteOptions
+): Promise<PromoteResult> {
+  console.log(formatSection('Promoting Forms'));
+  console.log(
+    `Promoting ${selectedForms.length} form(s) from ${source.name} to ${target.name}...`
+  );
+
+  let result: PromoteResult;
+  try {
+    result = await promoteForms(source, target, selectedForms, verbose, options);
+  } catch (error) {
+    console.log(formatError('Promotion failed'));
+    throw error;
+  }
+
+  // Print summary
+  console.log(formatSection('Promotion Complete'));
+  console.log(formatSubSection('Environments'));
+  console.log(`  ${source.name} → ${target.name}`);
+
+  if (result.successful.length > 0) {
+    console.log(formatSubSection(`✓ Successfully Promoted (${result.successful.length})`));
+    result.successful.forEach((success) => {
+      console.log(formatSuccess(`${success.name} ${formatInfo(`(${success.action})`)}`));
+    });
+  }
+
+  if (result.failed.length > 0) {
+    console.log(formatSubSection(`✗ Failed to Promote (${result.failed.length})`));
+    result.failed.forEach((failure) => {
+      console.log(formatError(`${failure.name}: ${failure.error}`));
+    });
+  }
+
+  printBackupRun(target, result.backupRun);
+
+  if (options.save) {
+    console.log(`\nForms saved to ${options.formsDir ?? DEFAULT_FORMS_DIR} directory`);
+  }
+  return result;
 }
 
 async function handleImport(
-  environment: ReturnType<typeof loadConfig>[0],
-  verbose: boolean
+  environments: EnvConfig[],
+  verbose: boolean,
+  dryRun: boolean,
+  options: UploadOptions
 ): Promise<void> {
+  const formsDir = options.formsDir ?? DEFAULT_FORMS_DIR;
+  const [environment] = environments;
+  if (!environment) {
+    return;
+  }
+
   console.log(formatSection('Import Forms'));
   if (verbose) {
-    console.log(formatInfo(`Starting import to environment: ${environment.name}`));
+    console.log(
+      formatInfo(
+        `Starting import to environment(s): ${environments.map((env) => env.name).join(', ')}`
+      )
+    );
   }
 
   const spinner = ora('Scanning local forms directory...').start();
 
+  let localForms: LocalFormFile[];
   try {
-    const localForms = await scanFormsDir();
+    localForms = await scanFormsDir(formsDir);
     spinner.stop();
+  } catch (error) {
+    spinner.fail('Failed to scan forms directory');
+    throw error;
+  }
+
+  if (localForms.length === 0) {
+    console.log(`No JSON files found in ${formsDir} directory.`);
+    console.log(`Please ensure the ${formsDir} directory exists and contains form JSON files.`);
+    return;
+  }
+
+  console.log(`Found ${localForms.length} form file(s) in ${formsDir} directory`);
+  const selectedForms = await selectLocalForms(localForms, formsDir);
+
+  if (selectedForms.length === 0) {
+    console.log('No forms selected. Exiting.');
+    return;
+  }
+
+  if (dryRun) {
+    const plans = await planUploadToEnvironments(environments, selectedForms, verbose, {
+      ...options,
+      interactive: true,
+    });
+    plans.forEach(printImportPlan);
+    return;
+  }
 
-    if (localForms.length === 0) {
-      console.log('No JSON files found in ./forms directory.');
-      console.log('Please ensure the ./forms directory exists and contains form JSON files.');
-      return;
+  if (environments.length > 1) {
+    await runFanOutImport(environments, selectedForms, verbose, {
+      ...options,
+      interactive: true,
+    });
+    return;
+  }
+
+  await runImport(environment, selectedForms, verbose, { ...options, interactive: true });
+}
+
+function printImportPlan(plan: ImportPlan): void {
+  const groups: {
+    action: PlanAction;
+    title: string;
+    format: (text: string) => string;
+  }[] = [
+    {
+      action: 'create',
+      title: 'Would Create',
+      format: (text) => `${colors.green}+ ${text}${colors.reset}`,
+    },
+    {
+      action: 'update',
+      title: 'Would Update',
+      format: (text) => `${colors.yellow}~ ${text}${colors.reset}`,
+    },
+    {
+      action: 'skip',
+      title: 'Would Skip',
+      format: (text) => formatInfo(`= ${text}`),
+    },
+    { action: 'reject', title: 'Would Reject', format: formatError },
+  ];
+
+  console.log(formatSection('Import Plan (dry run)'));
+  console.log(formatSubSection('Target Environment'));
+  console.log(`  ${plan.environment}`);
+
+  for (const group of groups) {
+    const entries = plan.entries.filter((entry) => entry.action === group.action);
+    if (entries.length === 0) {
+      continue;
     }
 
-    console.log(`Found ${localForms.length} form file(s) in ./forms directory`);
-    const selectedForms = await selectLocalForms(localForms);
+    console.log(formatSubSection(`${group.title} (${entries.length})`));
+    entries.forEach((entry) => {
+      const detail = entry.reason ?? (entry.formId ? `(${entry.formId})` : '');
+      console.log(group.format(`${entry.filename} → ${entry.name} ${detail}`.trim()));
+    });
+  }
+
+  console.log(`\nNo changes were made to ${plan.environment}.`);
+}
+
+async function runImport(
+  environment: EnvConfig,
+  source: UploadSource,
+  verbose: boolean,
+  options: UploadOptions
+): Promise<UploadResult> {
+  const formCount = isBundle(source) ? source.forms.length : source.length;
+
+  // Start the import process
+  console.log(formatSection('Starting Import'));
+  console.log(`Importing ${formCount} form(s) to ${environment.name}...`);
 
-    if (selectedForms.length === 0) {
-      console.log('No forms selected. Exiting.');
-      return;
+  let result: UploadResult;
+  try {
+    result = await uploadForms(environment, source, verbose, options);
+  } catch (error) {
+    console.log(formatError('Import failed'));
+    throw error;
+  }
+
+  // Print summary
+  console.log(formatSection(result.interrupted ? 'Import Interrupted' : 'Import Complete'));
+  console.log(formatSubSection('Target Environment'));
+  console.log(`  ${environment.name}`);
+
+  if (result.successful.length > 0) {
+    // After a rollback these forms no longer hold the imported definitions
+    const title = result.rollback ? '↺ Imported, Then Rolled Back' : '✓ Successfully Imported';
+    console.log(formatSubSection(`${title} (${result.successful.length})`));
+    result.successful.forEach((success) => {
+      console.log(
+        formatSuccess(`${success.filename} → ${success.name} ${formatInfo(`(${success.action})`)}`)
+      );
+    });
+  }
+
+  if (result.failed.length > 0) {
+    console.log(formatSubSection(`✗ Failed to Import (${result.failed.length})`));
+    result.failed.forEach((failure) => {
+      console.log(formatError(`${failure.filename}: ${failure.error}`));
+    });
+  }
+
+  if (result.interrupted) {
+    console.log(formatSubSection(`⏸ Not Processed (${result.interrupted.length})`));
+    result.interrupted.forEach((filename) => {
+      console.log(`  ${filename}`);
+    });
+    if (!result.rollback) {
+      console.log(formatInfo('Run the import again with --resume to continue where it stopped.'));
     }
+  }
 
-    // Start the import process
-    console.log(formatSection('Starting Import'));
-    console.log(`Importing ${selectedForms.length} form(s) to ${environment.name}...`);
+  if (result.rollback && result.rollback.failed.length > 0) {
+    console.log(formatSubSection(`✗ Failed to Roll Back (${result.rollback.failed.length})`));
+    result.rollback.failed.forEach((failure) => {
+      console.log(formatError(`${failure.name} (${failure.formId}): ${failure.error}`));
+    });
+  }
 
-    try {
-      const result = await uploadForms(environment, selectedForms, verbose);
-
-      // Print summary
-      console.log(formatSection('Import Complete'));
-      console.log(formatSubSection('Target Environment'));
-      console.log(`  ${environment.name}`);
-
-      if (result.successful.length > 0) {
-        console.log(formatSubSection(`✓ Successfully Imported (${result.successful.length})`));
-        result.successful.forEach((filename) => {
-          console.log(formatSuccess(filename));
-        });
-      }
+  if (options.atomic) {
+    printAtomicOutcome(environment, result);
+  }
 
-      if (result.failed.length > 0) {
-        console.log(formatSubSection(`✗ Failed to Import (${result.failed.length})`));
-        result.failed.forEach((failure) => {
-          console.log(formatError(`${failure.filename}: ${failure.error}`));
-        });
-      }
+  // A clean rollback leaves nothing to undo
+  if (!result.rollback || result.rollback.failed.length > 0) {
+    printBackupRun(environment, result.backupRun);
+  }
 
-      console.log(`\nImport operation completed.`);
+  console.log(`\nImport operation completed.`);
+  return result;
+}
 
-    } catch (error) {
-      console.log(formatError('Import failed'));
-      throw error;
+async function runFanOutImport(
+  environments: EnvConfig[],
+  source: UploadSource,
+  verbose: boolean,
+  options: UploadOptions
+): Promise<EnvironmentUploadResult[]> {
+  const filenames = (isBundle(source) ? bundleToLocalForms(source) : source).map(
+    (form) => form.filename
+  );
+
+  console.log(formatSection('Starting Import'));
+  console.log(
+    `Importing ${filenames.length} form(s) to ${environments.length} environments: ${environments
+      .map((env) => env.name)
+      .join(', ')}...`
+  );
+
+  let results: EnvironmentUploadResult[];
+  try {
+    results = await uploadFormsToEnvironments(environments, source, verbose, options);
+  } catch (error) {
+    console.log(formatError('Import failed'));
+    throw error;
+  }
+
+  const interrupted =
+    results.length < environments.length || results.some(({ result }) => result.interrupted);
+  console.log(formatSection(interrupted ? 'Import Interrupted' : 'Import Complete'));
+  printImportMatrix(filenames, environments, results);
+
+  for (const environment of environments) {
+    const result = results.find((entry) => entry.environment === environment.name)?.result;
+    if (!result) {
+      continue;
+    }
+
+    if (result.failed.length > 0) {
+      console.log(
+        formatSubSection(`✗ Failed in ${environment.name} (${result.failed.length})`)
+      );
+      result.failed.forEach((failure) => {
+        console.log(formatError(`${failure.filename}: ${failure.error}`));
+      });
+    }
+
+    if (result.rollback && result.rollback.failed.length > 0) {
+      console.log(
+        formatSubSection(
+          `✗ Failed to Roll Back in ${environment.name} (${result.rollback.failed.length})`
+        )
+      );
+      result.rollback.failed.forEach((failure) => {
+        console.log(formatError(`${failure.name} (${failure.formId}): ${failure.error}`));
+      });
+    }
+
+    if (options.atomic) {
+      printAtomicOutcome(environment, result);
+    }
+  }
+
+  // A clean rollback leaves nothing to undo
+  const backups = results.filter(
+    ({ result }) => result.backupRun && (!result.rollback || result.rollback.failed.length > 0)
+  );
+  if (backups.length > 0) {
+    console.log(formatSubSection('Backups'));
+    backups.forEach(({ environment, result }) => {
+      console.log(`  ${environment}: ${result.backupRun}`);
+      console.log(
+        formatInfo(`    Undo with: p1-forms rollback --env "${environment}" --run ${result.backupRun}`)
+      );
+    });
+  }
+
+  if (interrupted) {
+    console.log(formatInfo('Run the import again with --resume to continue where it stopped.'));
+  }
+
+  console.log(`\nImport operation completed.`);
+  return results;
+}
+
+function printImportMatrix(
+  filenames: string[],
+  environments: EnvConfig[],
+  results: EnvironmentUploadResult[]
+): void {
+  const statusFor = (filename: string, result?: UploadResult): string => {
+    if (!result) {
+      return '-';
     }
+    const success = result.successful.find((entry) => entry.filename === filename);
+    if (success) {
+      return result.rollback ? 'rolled back' : success.action;
+    }
+    return result.failed.some((entry) => entry.filename === filename) ? 'failed' : '-';
+  };
+  const colorFor = (status: string): string => {
+    switch (status) {
+      case 'created':
+      case 'updated':
+        return colors.green;
+      case 'failed':
+        return colors.red;
+      case 'rolled back':
+        return colors.yellow;
+      default:
+        return colors.dim;
+    }
+  };
+
+  const rows = filenames.map((filename) =>
+    environments.map((environment) =>
+      statusFor(
+        filename,
+        results.find((entry) => entry.environment === environment.name)?.result
+      )
+    )
+  );
+  const firstWidth = Math.max('Form'.length, ...filenames.map((filename) => filename.length));
+  const widths = environments.map((environment, column) =>
+    Math.max(environment.name.length, ...rows.map((row) => (row[column] ?? '').length))
+  );
+
+  console.log(formatSubSection('Results'));
+  console.log(
+    `  ${colors.bright}${[
+      'Form'.padEnd(firstWidth),
+      ...environments.map((environment, column) => environment.name.padEnd(widths[column] ?? 0)),
+    ].join('  ')}${colors.reset}`
+  );
+  filenames.forEach((filename, index) => {
+    // Pad before coloring so escape codes do not skew the column widths
+    const cells = (rows[index] ?? []).map(
+      (status, column) => `${colorFor(status)}${status.padEnd(widths[column] ?? 0)}${colors.reset}`
+    );
+    console.log(`  ${[filename.padEnd(firstWidth), ...cells].join('  ')}`);
+  });
+}
+
+function printAtomicOutcome(environment: EnvConfig, result: UploadResult): void {
+  console.log(formatSubSection('Batch'));
+
+  if (!result.rollback && result.failed.length === 0) {
+    console.log(formatSuccess(`All forms were applied to ${environment.name}`));
+  } else if (!result.rollback) {
+    console.log(formatError(`Aborted before any writes; ${environment.name} was not changed`));
+  } else if (result.rollback.failed.length === 0) {
+    console.log(
+      formatError(`Rolled back; ${environment.name} is back to its state before the import`)
+    );
+  } else {
+    console.log(
+      formatError(
+        `Rollback incomplete; ${result.rollback.failed.length} form(s) in ${environment.name} could not be restored`
+      )
+    );
+  }
+}
+
+function printBackupRun(environment: EnvConfig, runId?: string): void {
+  if (!runId) {
+    return;
+  }
+
+  console.log(formatSubSection('Backup'));
+  console.log(`  Run ID: ${runId}`);
+  console.log(
+    formatInfo(`  Undo with: p1-forms rollback --env "${environment.name}" --run ${runId}`)
+  );
+}
+
+async function listCommand(options: ListCommandOptions): Promise<void> {
+  const verbose = options.verbose || false;
+  const environment = findEnvironment(await loadEnvironments(options), options.env);
+  const forms = await listForms(environment, verbose);
+
+  if (options.json) {
+    console.log(JSON.stringify(forms, null, 2));
+    return;
+  }
+
+  if (forms.length === 0) {
+    console.log(`No forms found in ${environment.name}.`);
+    return;
+  }
+
+  console.log(formatSubSection(`Forms in ${environment.name} (${forms.length})`));
+  forms.forEach((form) => {
+    console.log(`  ${form.name} ${formatInfo(`(${form.id})`)}`);
+  });
+}
+
+async function exportCommand(options: ExportCommandOptions): Promise<void> {
+  const verbose = options.verbose || false;
+  const environment = findEnvironment(await loadEnvironments(options), options.env);
+
+  const forms = await listForms(environment, verbose);
+  const selectedForms = resolveForms(environment, forms, options);
+
+  if (selectedForms.length === 0) {
+    console.log(`No forms found in ${environment.name}.`);
+    return;
+  }
+
+  if (options.bundle) {
+    const bundle = await exportBundle(environment, selectedForms, options.bundle, verbose, {
+      filenameTemplate: options.filenameTemplate ?? DEFAULT_FILENAME_TEMPLATE,
+      reverseVars: options.reverseVars || false,
+      concurrency: options.concurrency ?? DEFAULT_CONCURRENCY,
+    });
+    console.log(
+      formatSuccess(`Exported ${bundle.forms.length} form(s) to bundle ${options.bundle}`)
+    );
+    return;
+  }
+
+  await runExport(environment, selectedForms, verbose, {
+    interactive: false,
+    formsDir: formsDirFor(options, environment),
+    filenameTemplate: options.filenameTemplate ?? DEFAULT_FILENAME_TEMPLATE,
+    reverseVars: options.reverseVars || false,
+    resume: options.resume || false,
+    concurrency: options.concurrency ?? DEFAULT_CONCURRENCY,
+  });
+
+  if (isInterrupted()) {
+    process.exitCode = 130;
+  }
+}
+
+async function promoteCommand(options: PromoteCommandOptions): Promise<void> {
+  const verbose = options.verbose || false;
+  const environments = await loadEnvironments(options);
+  const source = findEnvironment(environments, options.from);
+  const target = findEnvironment(environments, options.to);
+
+  if (source === target) {
+    throw new Error('Source and target environments must be different');
+  }
+
+  const forms = await listForms(source, verbose);
+  const selectedForms = resolveForms(source, forms, options);
+
+  if (selectedForms.length === 0) {
+    console.log(`No forms found in ${source.name}.`);
+    return;
+  }
+
+  const result = await runPromote(source, target, selectedForms, verbose, {
+    interactive: false,
+    save: options.save || false,
+    // Saved files are source exports, so they belong in the source's folder
+    formsDir: formsDirFor(options, source),
+    filenameTemplate: options.filenameTemplate ?? DEFAULT_FILENAME_TEMPLATE,
+    backupDir: options.backupDir ?? DEFAULT_BACKUP_DIR,
+  });
+
+  if (result.failed.length > 0) {
+    throw new Error(`${result.failed.length} form(s) failed to promote`);
+  }
+}
+
+function resolveForms(
+  environment: EnvConfig,
+  forms: FormSummary[],
+  options: { form?: string[]; all?: boolean }
+): FormSummary[] {
+  if (!options.all && !options.form?.length) {
+    throw new Error('Specify at least one --form or use --all');
+  }
+
+  if (options.all) {
+    return forms;
+  }
+
+  return (options.form ?? []).map((nameOrId) => {
+    const match = findForm(forms, nameOrId);
+    if (!match) {
+      throw new Error(`Form "${nameOrId}" not found in ${environment.name}`);
+    }
+    return match;
+  });
+}
+
+async function diffCommand(options: DiffCommandOptions): Promise<void> {
+  const verbose = options.verbose || false;
+  const environments = await loadEnvironments(options);
+  let entries: DiffEntry[];
+  let label: string;
+
+  if (options.env && options.file) {
+    const environment = findEnvironment(environments, options.env);
+    entries = await diffLocalForm(environment, options.file, verbose, options.form);
+    label = `${environment.name} → ${options.file}`;
+  } else if (options.from && options.to && options.form) {
+    const source = findEnvironment(environments, options.from);
+    const target = findEnvironment(environments, options.to);
+    entries = await diffRemoteForms(source, target, options.form, verbose);
+    label = `${target.name} → ${source.name}`;
+  } else {
+    throw new Error(
+      'Specify --env and --file to compare a local file, or --from, --to and --form to compare environments'
+    );
+  }
+
+  console.log(formatSubSection(`Differences (${label})`));
+  if (entries.length === 0) {
+    console.log(formatSuccess('No differences'));
+    return;
+  }
+
+  entries.forEach((entry) => console.log(formatDiffEntry(entry)));
+  console.log(`\n${entries.length} difference(s) found`);
+
+  // Differences are not an error, but CI should be able to gate on them
+  process.exitCode = 1;
+}
+
+function formatDiffEntry(entry: DiffEntry): string {
+  const format = (value: unknown): string => JSON.stringify(value);
+
+  switch (entry.kind) {
+    case 'added':
+      return `${colors.green}+ ${entry.path}: ${format(entry.after)}${colors.reset}`;
+    case 'removed':
+      return `${colors.red}- ${entry.path}: ${format(entry.before)}${colors.reset}`;
+    case 'changed':
+      return `${colors.yellow}~ ${entry.path}: ${format(entry.before)} → ${format(entry.after)}${colors.reset}`;
+  }
+}
+
+async function statusCommand(options: StatusCommandOptions): Promise<void> {
+  const verbose = options.verbose || false;
+  const environment = findEnvironment(await loadEnvironments(options), options.env);
+  const formsDir = formsDirFor(options, environment);
+
+  const spinner = options.json
+    ? undefined
+    : ora(`Comparing ${formsDir} with ${environment.name}...`).start();
+
+  let report: StatusReport;
+  try {
+    report = await getFormsStatus(environment, verbose, formsDir);
+    spinner?.stop();
   } catch (error) {
-    spinner.fail('Failed to scan forms directory');
+    spinner?.fail('Failed to build status report');
     throw error;
   }
+
+  if (options.json) {
+    console.log(JSON.stringify(report, null, 2));
+    return;
+  }
+
+  const describe = (entry: StatusEntry): string =>
+    entry.filename ? `${entry.name} ${formatInfo(`(${entry.filename})`)}` : entry.name;
+
+  console.log(formatSection(`Status: ${formsDir} ↔ ${environment.name}`));
+  console.log(formatSubSection(`Identical (${report.identical.length})`));
+  report.identical.forEach((entry) => console.log(formatSuccess(describe(entry))));
+  console.log(formatSubSection(`Changed (${report.changed.length})`));
+  report.changed.forEach((entry) =>
+    console.log(`${colors.yellow}~ ${describe(entry)}${colors.reset}`)
+  );
+  console.log(formatSubSection(`Only Local (${report.onlyLocal.length})`));
+  report.onlyLocal.forEach((entry) =>
+    console.log(`${colors.green}+ ${describe(entry)}${colors.reset}`)
+  );
+  console.log(formatSubSection(`Only Remote (${report.onlyRemote.length})`));
+  report.onlyRemote.forEach((entry) =>
+    console.log(`${colors.red}- ${describe(entry)}${colors.reset}`)
+  );
+
+  if (report.invalid.length > 0) {
+    console.log(formatSubSection(`Invalid Files (${report.invalid.length})`));
+    report.invalid.forEach((entry) =>
+      console.log(formatError(`${entry.filename}: ${entry.error}`))
+    );
+  }
+}
+
+async function validateCommand(options: ValidateCommandOptions): Promise<void> {
+  let formsDir = resolveFormsDir(options.formsDir);
+  if (options.perEnvDirs) {
+    if (!options.env) {
+      throw new Error('Specify --env to validate a per-environment forms folder');
+    }
+    const environment = findEnvironment(await loadEnvironments(options), options.env);
+    formsDir = formsDirFor(options, environment);
+  }
+
+  const localForms = await scanFormsDir(formsDir);
+  const wanted = new Set((options.file ?? []).map((file) => basename(file)));
+  const selectedForms =
+    wanted.size > 0
+      ? localForms.filter(
+          (form) => wanted.has(form.filename) || wanted.has(form.name)
+        )
+      : localForms;
+
+  for (const file of wanted) {
+    if (!localForms.some((form) => form.filename === file || form.name === file)) {
+      throw new Error(`Form file "${file}" not found in ${formsDir} directory`);
+    }
+  }
+
+  const invalidForms = selectedForms.filter((form) => !form.isValid);
+
+  if (options.json) {
+    console.log(
+      JSON.stringify(
+        selectedForms.map((form) => ({
+          filename: form.filename,
+          isValid: form.isValid,
+          issues: form.issues ?? (form.error ? [{ path: '(file)', message: form.error }] : []),
+        })),
+        null,
+        2
+      )
+    );
+  } else if (selectedForms.length === 0) {
+    console.log(`No JSON files found in ${formsDir} directory.`);
+  } else {
+    console.log(formatSubSection(`Validating ${selectedForms.length} form file(s) in ${formsDir}`));
+    selectedForms.forEach((form) => {
+      if (form.isValid) {
+        console.log(formatSuccess(form.filename));
+        return;
+      }
+      console.log(formatError(form.filename));
+      (form.issues ?? []).forEach((issue) => {
+        console.log(`    ${issue.path}: ${issue.message}`);
+      });
+      if (!form.issues) {
+        console.log(`    ${form.error}`);
+      }
+    });
+  }
+
+  if (invalidForms.length > 0) {
+    throw new Error(`${invalidForms.length} form file(s) failed validation`);
+  }
+}
+
+async function encryptConfigCommand(options: CliOptions): Promise<void> {
+  const passphrase = await resolvePassphrase(true);
+  const count = await encryptConfigFile(passphrase, options.config);
+  console.log(
+    count > 0
+      ? formatSuccess(`Encrypted ${count} client secret(s) in ${getConfigPath(options.config)}`)
+      : 'No plaintext client secrets to encrypt.'
+  );
+}
+
+async function decryptConfigCommand(options: CliOptions): Promise<void> {
+  const passphrase = await resolvePassphrase();
+  const count = await decryptConfigFile(passphrase, options.config);
+  console.log(
+    count > 0
+      ? formatSuccess(`Decrypted ${count} client secret(s) in ${getConfigPath(options.config)}`)
+      : 'No encrypted client secrets to decrypt.'
+  );
+}
+
+async function importCommand(options: ImportCommandOptions): Promise<void> {
+  const verbose = options.verbose || false;
+  const environments = await loadEnvironments(options);
+  const targets: EnvConfig[] = [];
+  for (const name of options.env) {
+    const environment = findEnvironment(environments, name);
+    if (!targets.includes(environment)) {
+      targets.push(environment);
+    }
+  }
+  const [environment] = targets;
+  if (!environment) {
+    throw new Error('Specify at least one --env');
+  }
+
+  if (!options.all && !options.file?.length) {
+    throw new Error('Specify at least one --file or use --all');
+  }
+
+  const formsDir = importFormsDir(options, targets);
+  const bundle = options.bundle ? await readBundle(options.bundle, verbose) : undefined;
+  const localForms = bundle ? bundleToLocalForms(bundle) : await scanFormsDir(formsDir);
+  const sourceName = options.bundle ? `bundle ${options.bundle}` : `${formsDir} directory`;
+  let selectedForms: LocalFormFile[];
+
+  if (options.all) {
+    selectedForms = localForms;
+  } else {
+    selectedForms = (options.file ?? []).map((filePath) => {
+      const filename = basename(filePath);
+      const match = localForms.find(
+        (form) => form.filename === filename || form.name === filename
+      );
+      if (!match) {
+        throw new Error(`Form file "${filePath}" not found in ${sourceName}`);
+      }
+      return match;
+    });
+  }
+
+  if (selectedForms.length === 0) {
+    console.log(`No forms found in ${sourceName}.`);
+    return;
+  }
+
+  const toSource = (forms: LocalFormFile[]): UploadSource =>
+    bundle ? filterBundle(bundle, forms.map((form) => form.filename)) : forms;
+
+  if (options.dryRun) {
+    // Invalid files show up in the plan as rejected entries
+    const plans = await planUploadToEnvironments(targets, toSource(selectedForms), verbose, {
+      interactive: false,
+      formsDir,
+      conflictPolicy: options.onConflict ?? DEFAULT_CONFLICT_POLICY,
+    });
+    if (options.json) {
+      // A single target keeps the original single-plan output
+      console.log(JSON.stringify(plans.length === 1 ? plans[0] : plans, null, 2));
+    } else {
+      plans.forEach(printImportPlan);
+    }
+    if (plans.some((plan) => plan.entries.some((entry) => entry.action === 'reject'))) {
+      process.exitCode = 1;
+    }
+    return;
+  }
+
+  // Invalid files are reported as failures rather than silently dropped. An
+  // atomic import keeps them so they are rejected in planning and abort the batch.
+  const invalidForms = options.atomic ? [] : selectedForms.filter((form) => !form.isValid);
+  const importedForms = options.atomic
+    ? selectedForms
+    : selectedForms.filter((form) => form.isValid);
+
+  invalidForms.forEach((form) => {
+    console.log(formatError(`Skipping invalid file ${form.filename}: ${form.error}`));
+  });
+
+  const uploadOptions: UploadOptions = {
+    interactive: false,
+    formsDir,
+    backupDir: options.backupDir ?? DEFAULT_BACKUP_DIR,
+    atomic: options.atomic || false,
+    resume: options.resume || false,
+    conflictPolicy: options.onConflict ?? DEFAULT_CONFLICT_POLICY,
+    concurrency: options.concurrency ?? DEFAULT_CONCURRENCY,
+  };
+
+  if (targets.length > 1) {
+    const results = await runFanOutImport(
+      targets,
+      toSource(importedForms),
+      verbose,
+      uploadOptions
+    );
+
+    const failureCount =
+      results.reduce((count, { result }) => count + result.failed.length, 0) +
+      invalidForms.length;
+    if (failureCount > 0) {
+      throw new Error(`${failureCount} form import(s) failed across ${targets.length} environments`);
+    }
+    if (isInterrupted()) {
+      process.exitCode = 130;
+    }
+    return;
+  }
+
+  const result = await runImport(environment, toSource(importedForms), verbose, uploadOptions);
+
+  const failureCount = result.failed.length + invalidForms.length;
+  if (failureCount > 0) {
+    throw new Error(`${failureCount} form(s) failed to import`);
+  }
+  if (result.interrupted) {
+    process.exitCode = 130;
+  }
+}
+
+async function rollbackCommand(options: RollbackCommandOptions): Promise<void> {
+  const verbose = options.verbose || false;
+  const environment = findEnvironment(await loadEnvironments(options), options.env);
+
+  console.log(formatSection('Rolling Back'));
+  console.log(`Restoring forms touched by run ${options.run} in ${environment.name}...`);
+
+  const result = await rollbackRun(
+    environment,
+    options.run,
+    verbose,
+    options.backupDir ?? DEFAULT_BACKUP_DIR
+  );
+
+  console.log(formatSection('Rollback Complete'));
+
+  if (result.successful.length > 0) {
+    console.log(formatSubSection(`✓ Rolled Back (${result.successful.length})`));
+    result.successful.forEach((success) => {
+      console.log(formatSuccess(`${success.name} ${formatInfo(`(${success.action})`)}`));
+    });
+  }
+
+  if (result.failed.length > 0) {
+    console.log(formatSubSection(`✗ Failed to Roll Back (${result.failed.length})`));
+    result.failed.forEach((failure) => {
+      console.log(formatError(`${failure.name} (${failure.formId}): ${failure.error}`));
+    });
+    throw new Error(`${result.failed.length} form(s) failed to roll back`);
+  }
 }
 
 // Handle unhandled promise rejections
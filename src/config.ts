@@ -1,28 +1,311 @@
-import { join } from 'path';
+import { join, resolve, dirname, basename } from 'path';
 import { readFileSync, existsSync } from 'fs';
-import type { EnvConfig, RegionTLD } from './types.js';
+import { readFile, writeFile } from 'fs/promises';
+import {
+  loadDotEnv,
+  interpolateVariables,
+  overrideVariableName,
+} from './envvars.js';
+import {
+  isEncrypted,
+  encryptSecret,
+  decryptSecret,
+  PASSPHRASE_ENV_VAR,
+} from './secrets.js';
+import { DEFAULT_RETRY_SETTINGS } from './retry.js';
+import { SIGNING_ALGORITHMS } from './jwt.js';
+import type {
+  AppConfig,
+  AuthMethod,
+  EnvConfig,
+  ExportSettings,
+  RegionTLD,
+  RetrySettings,
+  SigningAlgorithm,
+} from './types.js';
 
 const VALID_TLDS: RegionTLD[] = ['com', 'eu', 'ca', 'asia', 'com.au', 'sg'];
+const OVERRIDABLE_FIELDS = ['envId', 'clientId', 'clientSecret', 'tld', 'privateKeyPath'];
+const AUTH_METHODS: AuthMethod[] = ['client_secret_basic', 'client_secret_post', 'private_key_jwt'];
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
-export function loadConfig(): EnvConfig[] {
-  const envJsonPath = join(process.cwd(), 'environments.json');
+export const CONFIG_PATH_ENV_VAR = 'P1_FORMS_CONFIG';
+export const VARIABLES_FILENAME = 'variables.json';
+export const REFERENCES_FILENAME = 'references.json';
+
+export function getConfigPath(configPath?: string): string {
+  return resolve(
+    configPath ||
+      process.env[CONFIG_PATH_ENV_VAR] ||
+      join(process.cwd(), 'environments.json')
+  );
+}
+
+export async function loadConfig(
+  configPath?: string,
+  getPassphrase?: () => Promise<string>
+): Promise<AppConfig> {
+  const envJsonPath = getConfigPath(configPath);
+
+  // Optional .env file supplies variables for ${VAR} references and overrides
+  loadDotEnv(join(process.cwd(), '.env'));
 
   if (!existsSync(envJsonPath)) {
     throw new Error(
-      'Missing environments.json file. Please create one based on environments.example.json'
+      `Missing config file ${envJsonPath}. Please create one based on environments.example.json`
     );
   }
 
+  let config: AppConfig;
   try {
     const jsonContent = readFileSync(envJsonPath, 'utf-8');
-    const environments = JSON.parse(jsonContent);
-    return validateAndParseEnvironments(environments);
+    config = validateAndParseConfig(JSON.parse(jsonContent));
   } catch (error) {
     throw new Error(
       `Error reading environments.json: ${error instanceof Error ? error.message : 'Unknown error'
       }`
     );
   }
+
+  const configDir = dirname(envJsonPath);
+  let environments = applySidecarFile(
+    config.environments,
+    join(configDir, VARIABLES_FILENAME),
+    (env, section, label) => ({
+      ...env,
+      // Values in the variables file take precedence over those in environments.json
+      variables: { ...env.variables, ...validateFormVariables(section, label) },
+    })
+  );
+  environments = applySidecarFile(
+    environments,
+    join(configDir, REFERENCES_FILENAME),
+    (env, section, label) => ({
+      ...env,
+      referenceOverrides: validateReferenceOverrides(section, label),
+    })
+  );
+
+  // Key paths are relative to the config file, like the sidecar files
+  environments = environments.map((env) =>
+    env.privateKeyPath ? { ...env, privateKeyPath: resolve(configDir, env.privateKeyPath) } : env
+  );
+
+  config.environments = await decryptEnvironmentSecrets(environments, getPassphrase);
+  return config;
+}
+
+/**
+ * Merges a per-environment sidecar file, an object keyed by environment name,
+ * into the matching environments.
+ */
+function applySidecarFile(
+  environments: EnvConfig[],
+  path: string,
+  apply: (env: EnvConfig, section: unknown, label: string) => EnvConfig
+): EnvConfig[] {
+  if (!existsSync(path)) {
+    return environments;
+  }
+
+  const filename = basename(path);
+  let content: unknown;
+  try {
+    content = JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (error) {
+    throw new Error(
+      `Error reading ${filename}: ${error instanceof Error ? error.message : 'Unknown error'
+      }`
+    );
+  }
+
+  if (!content || typeof content !== 'object' || Array.isArray(content)) {
+    throw new Error(`${filename} must be an object keyed by environment name`);
+  }
+
+  const sections = Object.entries(content as Record<string, unknown>);
+  return environments.map((env) => {
+    const section = sections.find(([name]) => name.toLowerCase() === env.name.toLowerCase());
+    return section ? apply(env, section[1], `${filename} entry "${section[0]}"`) : env;
+  });
+}
+
+async function decryptEnvironmentSecrets(
+  environments: EnvConfig[],
+  getPassphrase?: () => Promise<string>
+): Promise<EnvConfig[]> {
+  if (!environments.some((env) => isEncrypted(env.clientSecret))) {
+    return environments;
+  }
+
+  const passphrase =
+    process.env[PASSPHRASE_ENV_VAR] || (getPassphrase && (await getPassphrase()));
+  if (!passphrase) {
+    throw new Error(
+      `environments.json contains encrypted secrets. Set ${PASSPHRASE_ENV_VAR} to decrypt them`
+    );
+  }
+
+  const decrypted: EnvConfig[] = [];
+  for (const env of environments) {
+    if (env.clientSecret === undefined || !isEncrypted(env.clientSecret)) {
+      decrypted.push(env);
+      continue;
+    }
+
+    try {
+      decrypted.push({
+        ...env,
+        clientSecret: await decryptSecret(env.clientSecret, passphrase),
+      });
+    } catch (error) {
+      throw new Error(
+        `Failed to decrypt clientSecret for ${env.name}: ${error instanceof Error ? error.message : 'Unknown error'
+        }`
+      );
+    }
+  }
+  return decrypted;
+}
+
+export async function encryptConfigFile(
+  passphrase: string,
+  configPath?: string
+): Promise<number> {
+  return rewriteConfigSecrets(configPath, async (secret) =>
+    // ${VAR} references hold no secret themselves, so they stay readable
+    isEncrypted(secret) || secret.includes('${')
+      ? undefined
+      : encryptSecret(secret, passphrase)
+  );
+}
+
+export async function decryptConfigFile(
+  passphrase: string,
+  configPath?: string
+): Promise<number> {
+  return rewriteConfigSecrets(configPath, async (secret) =>
+    isEncrypted(secret) ? decryptSecret(secret, passphrase) : undefined
+  );
+}
+
+async function rewriteConfigSecrets(
+  configPath: string | undefined,
+  transform: (secret: string) => Promise<string | undefined>
+): Promise<number> {
+  const envJsonPath = getConfigPath(configPath);
+
+  if (!existsSync(envJsonPath)) {
+    throw new Error(
+      `Missing config file ${envJsonPath}. Please create one based on environments.example.json`
+    );
+  }
+
+  const content = JSON.parse(await readFile(envJsonPath, 'utf-8'));
+  const environments = Array.isArray(content) ? content : content?.environments;
+  if (!Array.isArray(environments)) {
+    throw new Error('environments.json must contain a JSON array of environment objects');
+  }
+
+  let changed = 0;
+  for (const env of environments) {
+    if (!env || typeof env.clientSecret !== 'string') {
+      continue;
+    }
+
+    let updated: string | undefined;
+    try {
+      updated = await transform(env.clientSecret);
+    } catch (error) {
+      throw new Error(
+        `Failed to process clientSecret for ${env.name}: ${error instanceof Error ? error.message : 'Unknown error'
+        }`
+      );
+    }
+
+    if (updated !== undefined) {
+      env.clientSecret = updated;
+      changed++;
+    }
+  }
+
+  if (changed > 0) {
+    await writeFile(envJsonPath, `${JSON.stringify(content, null, 2)}\n`, 'utf-8');
+  }
+  return changed;
+}
+
+function validateAndParseConfig(content: unknown): AppConfig {
+  // A bare array of environments is the original format and is still supported
+  if (Array.isArray(content)) {
+    return {
+      environments: validateAndParseEnvironments(content),
+      export: validateExportSettings(undefined),
+      retry: validateRetrySettings(undefined),
+    };
+  }
+
+  if (!content || typeof content !== 'object') {
+    throw new Error(
+      'environments.json must contain a JSON array of environments or an object with an "environments" array'
+    );
+  }
+
+  const configObj = content as Record<string, unknown>;
+  return {
+    environments: validateAndParseEnvironments(configObj.environments),
+    export: validateExportSettings(configObj.export),
+    retry: validateRetrySettings(configObj.retry),
+  };
+}
+
+function validateRetrySettings(settings: unknown): RetrySettings {
+  if (settings === undefined) {
+    return DEFAULT_RETRY_SETTINGS;
+  }
+
+  if (!settings || typeof settings !== 'object' || Array.isArray(settings)) {
+    throw new Error('"retry" must be an object with "maxRetries", "baseDelayMs" and/or "maxDelayMs"');
+  }
+
+  const settingsObj = settings as Record<string, unknown>;
+  const readNumber = (field: keyof RetrySettings): number => {
+    const value = settingsObj[field] ?? DEFAULT_RETRY_SETTINGS[field];
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+      throw new Error(`"retry.${field}" must be a non-negative integer`);
+    }
+    return value;
+  };
+
+  return {
+    maxRetries: readNumber('maxRetries'),
+    baseDelayMs: readNumber('baseDelayMs'),
+    maxDelayMs: readNumber('maxDelayMs'),
+  };
+}
+
+function validateExportSettings(settings: unknown): ExportSettings {
+  if (settings === undefined) {
+    return { strip: [], keep: [] };
+  }
+
+  if (!settings || typeof settings !== 'object' || Array.isArray(settings)) {
+    throw new Error('"export" must be an object with "strip" and/or "keep" arrays');
+  }
+
+  const settingsObj = settings as Record<string, unknown>;
+  const readPaths = (field: 'strip' | 'keep'): string[] => {
+    const paths = settingsObj[field] ?? [];
+    if (
+      !Array.isArray(paths) ||
+      !paths.every((path) => typeof path === 'string' && path.length > 0)
+    ) {
+      throw new Error(`"export.${field}" must be an array of JSON paths`);
+    }
+    return paths;
+  };
+
+  return { strip: readPaths('strip'), keep: readPaths('keep') };
 }
 
 function validateAndParseEnvironments(environments: unknown): EnvConfig[] {
@@ -38,13 +321,33 @@ function validateEnvironment(env: unknown, index: number): EnvConfig {
     throw new Error(`Environment at index ${index} is not a valid object`);
   }
 
-  const envObj = env as Record<string, unknown>;
-  const requiredFields = ['name', 'envId', 'clientId', 'clientSecret', 'tld'];
+  const envObj = resolveVariables(env as Record<string, unknown>, index);
+  const authMethod = envObj.authMethod ?? 'client_secret_basic';
+  if (!AUTH_METHODS.includes(authMethod as AuthMethod)) {
+    throw new Error(
+      `Environment at index ${index} has invalid authMethod: ${authMethod}. Must be one of: ${AUTH_METHODS.join(
+        ', '
+      )}`
+    );
+  }
+
+  // A signed assertion replaces the shared secret
+  const requiredFields = [
+    'name',
+    'envId',
+    'clientId',
+    authMethod === 'private_key_jwt' ? 'privateKeyPath' : 'clientSecret',
+    'tld',
+  ];
 
   for (const field of requiredFields) {
     if (!envObj[field] || typeof envObj[field] !== 'string') {
+      const hint =
+        typeof envObj.name === 'string' && OVERRIDABLE_FIELDS.includes(field)
+          ? ` (or set ${overrideVariableName(envObj.name, field)})`
+          : '';
       throw new Error(
-        `Environment at index ${index} is missing required field: ${field}`
+        `Environment at index ${index} is missing required field: ${field}${hint}`
       );
     }
   }
@@ -59,21 +362,163 @@ function validateEnvironment(env: unknown, index: number): EnvConfig {
   }
 
   // Validate envId is UUID format
-  const uuidRegex =
-    /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
-  if (!uuidRegex.test(envObj.envId as string)) {
+  if (!UUID_REGEX.test(envObj.envId as string)) {
     throw new Error(
       `Environment at index ${index} has invalid envId format. Must be a valid UUID.`
     );
   }
 
-  return {
+  const config: EnvConfig = {
     name: envObj.name as string,
     envId: envObj.envId as string,
     clientId: envObj.clientId as string,
-    clientSecret: envObj.clientSecret as string,
     tld: tld as RegionTLD,
   };
+  if (envObj.authMethod !== undefined) {
+    config.authMethod = authMethod as AuthMethod;
+  }
+  if (authMethod === 'private_key_jwt') {
+    Object.assign(config, validateSigningKey(envObj, index));
+  } else {
+    config.clientSecret = envObj.clientSecret as string;
+  }
+  if (envObj.variables !== undefined) {
+    config.variables = validateFormVariables(
+      envObj.variables,
+      `Environment at index ${index}`
+    );
+  }
+  if (envObj.requestsPerSecond !== undefined) {
+    const rate = envObj.requestsPerSecond;
+    if (typeof rate !== 'number' || !Number.isFinite(rate) || rate <= 0) {
+      throw new Error(
+        `Environment at index ${index} has invalid requestsPerSecond: must be a positive number`
+      );
+    }
+    config.requestsPerSecond = rate;
+  }
+  return config;
+}
+
+function validateSigningKey(
+  envObj: Record<string, unknown>,
+  index: number
+): Pick<EnvConfig, 'privateKeyPath' | 'signingAlgorithm' | 'keyId'> {
+  const { signingAlgorithm, keyId } = envObj;
+  if (
+    signingAlgorithm !== undefined &&
+    !SIGNING_ALGORITHMS.includes(signingAlgorithm as SigningAlgorithm)
+  ) {
+    throw new Error(
+      `Environment at index ${index} has invalid signingAlgorithm: ${signingAlgorithm}. Must be one of: ${SIGNING_ALGORITHMS.join(
+        ', '
+      )}`
+    );
+  }
+  if (keyId !== undefined && (typeof keyId !== 'string' || keyId.length === 0)) {
+    throw new Error(`Environment at index ${index} has invalid keyId: must be a non-empty string`);
+  }
+
+  // The key itself is read on the first token request, so a runner only
+  // needs the keys of the environments it actually uses
+  return {
+    privateKeyPath: envObj.privateKeyPath as string,
+    ...(signingAlgorithm !== undefined
+      ? { signingAlgorithm: signingAlgorithm as SigningAlgorithm }
+      : {}),
+    ...(keyId !== undefined ? { keyId: keyId as string } : {}),
+  };
+}
+
+function validateReferenceOverrides(
+  overrides: unknown,
+  label: string
+): Record<string, string> {
+  if (!overrides || typeof overrides !== 'object' || Array.isArray(overrides)) {
+    throw new Error(`${label} must map source resource IDs to target resource IDs`);
+  }
+
+  const validated: Record<string, string> = {};
+  for (const [sourceId, targetId] of Object.entries(overrides as Record<string, unknown>)) {
+    if (!UUID_REGEX.test(sourceId) || typeof targetId !== 'string' || !UUID_REGEX.test(targetId)) {
+      throw new Error(`${label} has an invalid mapping for ${sourceId}: both IDs must be UUIDs`);
+    }
+    validated[sourceId.toLowerCase()] = targetId;
+  }
+  return validated;
+}
+
+function validateFormVariables(variables: unknown, label: string): Record<string, string> {
+  if (!variables || typeof variables !== 'object' || Array.isArray(variables)) {
+    throw new Error(`${label} has invalid "variables": must be an object of strings`);
+  }
+
+  const resolved: Record<string, string> = {};
+  for (const [name, value] of Object.entries(variables as Record<string, unknown>)) {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+      throw new Error(`${label} has invalid variable name: ${name}`);
+    }
+    if (typeof value !== 'string') {
+      throw new Error(`${label} has a non-string value for variable: ${name}`);
+    }
+    resolved[name] = interpolateVariables(value, (missing) => {
+      throw new Error(
+        `${label} references undefined variable ${missing} in variable: ${name}`
+      );
+    });
+  }
+  return resolved;
+}
+
+function resolveVariables(
+  envObj: Record<string, unknown>,
+  index: number
+): Record<string, unknown> {
+  const resolved: Record<string, unknown> = {};
+
+  for (const [field, value] of Object.entries(envObj)) {
+    resolved[field] =
+      typeof value === 'string'
+        ? interpolateVariables(value, (name) => {
+            throw new Error(
+              `Environment at index ${index} references undefined variable ${name} in field: ${field}`
+            );
+          })
+        : value;
+  }
+
+  // P1_<NAME>_<FIELD> variables take precedence over values in the file
+  if (typeof resolved.name === 'string') {
+    for (const field of OVERRIDABLE_FIELDS) {
+      const override = process.env[overrideVariableName(resolved.name, field)];
+      if (override) {
+        resolved[field] = override;
+      }
+    }
+  }
+
+  return resolved;
+}
+
+export function findEnvironment(
+  environments: EnvConfig[],
+  nameOrId: string
+): EnvConfig {
+  const needle = nameOrId.trim().toLowerCase();
+  const match = environments.find(
+    (env) =>
+      env.name.toLowerCase() === needle || env.envId.toLowerCase() === needle
+  );
+
+  if (!match) {
+    throw new Error(
+      `Unknown environment: ${nameOrId}. Available environments: ${environments
+        .map((env) => env.name)
+        .join(', ')}`
+    );
+  }
+
+  return match;
 }
 
 export function buildAuthUrl(envId: string, tld: RegionTLD): string {
@@ -0,0 +1,15 @@
+import type { ConflictPolicy } from './types.js';
+
+export const CONFLICT_POLICIES: ConflictPolicy[] = ['overwrite', 'skip', 'rename', 'fail'];
+export const DEFAULT_CONFLICT_POLICY: ConflictPolicy = 'overwrite';
+
+/**
+ * Appends the first free counter, e.g. "Sign Up (2)", to a name that is taken.
+ */
+export function uniqueFormName(name: string, takenNames: Set<string>): string {
+  let counter = 2;
+  while (takenNames.has(`${name} (${counter})`)) {
+    counter++;
+  }
+  return `${name} (${counter})`;
+}
@@ -0,0 +1,3 @@
+// Files the tool keeps in the forms directory alongside the forms
+export const MANIFEST_FILENAME = 'manifest.json';
+export const CHECKPOINT_PREFIX = '.checkpoint-';
@@ -0,0 +1,120 @@
+import type { DiffEntry } from './types.js';
+
+// Array items are matched on the first of these properties that every item
+// carries uniquely, so reordering fields does not show up as a wall of changes
+const IDENTITY_KEYS = ['key', 'id', 'name'];
+
+export function diffForms(before: any, after: any): DiffEntry[] {
+  const entries: DiffEntry[] = [];
+  compareValues(before, after, '', entries);
+  return entries;
+}
+
+function compareValues(
+  before: any,
+  after: any,
+  path: string,
+  entries: DiffEntry[]
+): void {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    compareObjects(before, after, path, entries);
+  } else if (Array.isArray(before) && Array.isArray(after)) {
+    compareArrays(before, after, path, entries);
+  } else if (!Object.is(before, after)) {
+    entries.push({ path: path || '(root)', kind: 'changed', before, after });
+  }
+}
+
+function compareObjects(
+  before: Record<string, any>,
+  after: Record<string, any>,
+  path: string,
+  entries: DiffEntry[]
+): void {
+  const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+
+  for (const key of keys) {
+    const childPath = joinPath(path, key);
+
+    if (!(key in after)) {
+      entries.push({ path: childPath, kind: 'removed', before: before[key] });
+    } else if (!(key in before)) {
+      entries.push({ path: childPath, kind: 'added', after: after[key] });
+    } else {
+      compareValues(before[key], after[key], childPath, entries);
+    }
+  }
+}
+
+function compareArrays(
+  before: any[],
+  after: any[],
+  path: string,
+  entries: DiffEntry[]
+): void {
+  const identityKey = findIdentityKey(before, after);
+
+  if (!identityKey) {
+    const length = Math.max(before.length, after.length);
+    for (let index = 0; index < length; index++) {
+      const childPath = `${path}[${index}]`;
+      if (index >= after.length) {
+        entries.push({ path: childPath, kind: 'removed', before: before[index] });
+      } else if (index >= before.length) {
+        entries.push({ path: childPath, kind: 'added', after: after[index] });
+      } else {
+        compareValues(before[index], after[index], childPath, entries);
+      }
+    }
+    return;
+  }
+
+  const afterById = new Map(after.map((item) => [item[identityKey], item]));
+  const beforeIds = new Set(before.map((item) => item[identityKey]));
+
+  for (const item of before) {
+    const id = item[identityKey];
+    const childPath = `${path}[${identityKey}=${id}]`;
+    if (!afterById.has(id)) {
+      entries.push({ path: childPath, kind: 'removed', before: item });
+    } else {
+      compareValues(item, afterById.get(id), childPath, entries);
+    }
+  }
+
+  for (const item of after) {
+    const id = item[identityKey];
+    if (!beforeIds.has(id)) {
+      entries.push({
+        path: `${path}[${identityKey}=${id}]`,
+        kind: 'added',
+        after: item,
+      });
+    }
+  }
+}
+
+function findIdentityKey(before: any[], after: any[]): string | undefined {
+  return IDENTITY_KEYS.find((key) =>
+    [before, after].every((items) => {
+      const values = items.map((item) =>
+        isPlainObject(item) ? item[key] : undefined
+      );
+      return (
+        values.every((value) => typeof value === 'string') &&
+        new Set(values).size === values.length
+      );
+    })
+  );
+}
+
+function joinPath(path: string, key: string): string {
+  if (/^[A-Za-z_$][\w$]*$/.test(key)) {
+    return path ? `${path}.${key}` : key;
+  }
+  return `${path}[${JSON.stringify(key)}]`;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
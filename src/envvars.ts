@@ -0,0 +1,62 @@
+import { readFileSync, existsSync } from 'fs';
+
+const VARIABLE_PATTERN = /\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g;
+
+export function loadDotEnv(path: string): void {
+  if (!existsSync(path)) {
+    return;
+  }
+
+  const content = readFileSync(path, 'utf-8');
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) {
+      continue;
+    }
+
+    const match = /^(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.*)$/.exec(line);
+    if (!match) {
+      continue;
+    }
+
+    const [, key = '', rawValue = ''] = match;
+    let value = rawValue.trim();
+    const quote = value.charAt(0);
+    if ((quote === '"' || quote === "'") && value.endsWith(quote) && value.length > 1) {
+      value = value.slice(1, -1);
+      if (quote === '"') {
+        value = value.replace(/\\n/g, '\n');
+      }
+    } else {
+      value = value.replace(/\s+#.*$/, '');
+    }
+
+    // Variables already set in the process environment always win
+    if (process.env[key] === undefined) {
+      process.env[key] = value;
+    }
+  }
+}
+
+export function interpolateVariables(
+  value: string,
+  onMissing: (name: string) => never
+): string {
+  return value.replace(VARIABLE_PATTERN, (_match, name: string) => {
+    const resolved = process.env[name];
+    if (resolved === undefined) {
+      onMissing(name);
+    }
+    return resolved;
+  });
+}
+
+export function overrideVariableName(envName: string, field: string): string {
+  const envPart = envName
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+  const fieldPart = field.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toUpperCase();
+  return `P1_${envPart}_${fieldPart}`;
+}
@@ -1,7 +1,93 @@
-import { listForms as apiListForms, downloadForm, uploadForm } from './api.js';
-import { saveFormToFile, loadFormFromFile } from './fsio.js';
+import { basename, dirname } from 'path';
+import {
+  listForms as apiListForms,
+  downloadForm,
+  uploadForm,
+  updateForm,
+  deleteForm,
+} from './api.js';
+import {
+  startBackupRun,
+  snapshotForm,
+  recordCreatedForm,
+  readBackupRun,
+  readSnapshot,
+  DEFAULT_BACKUP_DIR,
+} from './backup.js';
+import { loadCheckpoint, markCompleted, clearCheckpoint } from './checkpoint.js';
+import { handleInterrupts, isInterrupted } from './interrupt.js';
+import {
+  mapWithConcurrency,
+  createSerialQueue,
+  DEFAULT_CONCURRENCY,
+} from './concurrency.js';
+import { diffForms } from './diff.js';
+import { resolvePlaceholders, insertPlaceholders } from './placeholders.js';
+import { collectReferences, remapReferences } from './references.js';
+import {
+  createBundle,
+  writeBundle,
+  isBundle,
+  filterBundle,
+  bundleToLocalForms,
+} from './bundle.js';
+import {
+  assignFilenames,
+  renderFilename,
+  DEFAULT_FILENAME_TEMPLATE,
+} from './naming.js';
+import { stableStringify, removePath } from './json.js';
+import {
+  readManifest,
+  writeManifest,
+  recordExport,
+  manifestFormId,
+} from './manifest.js';
+import { validateForm, validateFormName, formatValidationIssues } from './validate.js';
+import {
+  scanFormsDir,
+  saveFormToFile,
+  loadFormFromFile,
+  readFormFile,
+  DEFAULT_FORMS_DIR,
+} from './fsio.js';
 import { promptForMultipleFormNames, promptForOverwrite } from './ui.js';
-import type { EnvConfig, FormSummary, LocalFormFile } from './types.js';
+import { uniqueFormName, DEFAULT_CONFLICT_POLICY } from './conflicts.js';
+import type {
+  EnvConfig,
+  FormSummary,
+  LocalFormFile,
+  DownloadOptions,
+  UploadOptions,
+  UploadResult,
+  UploadAction,
+  PromoteOptions,
+  PromoteResult,
+  DiffEntry,
+  StatusReport,
+  ImportPlan,
+  ImportPlanEntry,
+  ExportSettings,
+  FormsManifest,
+  FormsBundle,
+  BundleEntry,
+  UploadSource,
+  BackupContext,
+  BackupRun,
+  RollbackResult,
+  FormNameChoice,
+  EnvironmentUploadResult,
+} from './types.js';
+
+type PlannedForm = ImportPlanEntry & { formData: any };
+
+type UploadOutcome =
+  | { success: UploadResult['successful'][number] }
+  | { failure: UploadResult['failed'][number] };
+
+const DEFAULT_STRIPPED_PATHS = ['_links', 'id', 'environment', 'created', 'modified'];
+
+let exportSettings: ExportSettings = { strip: [], keep: [] };
 
 export async function listForms(
   env: EnvConfig,
@@ -10,141 +96,1152 @@ export async function listForms(
   return apiListForms(env, verbose);
 }
 
+export function findForm(
+  forms: FormSummary[],
+  nameOrId: string
+): FormSummary | undefined {
+  const needle = nameOrId.toLowerCase();
+  return (
+    forms.find((form) => form.id === nameOrId) ??
+    forms.find((form) => form.name.toLowerCase() === needle)
+  );
+}
+
 export async function downloadForms(
   env: EnvConfig,
   forms: FormSummary[],
-  verbose = false
+  verbose = false,
+  options: DownloadOptions = {}
 ): Promise<string[]> {
+  const {
+    interactive = true,
+    formsDir = DEFAULT_FORMS_DIR,
+    filenameTemplate = DEFAULT_FILENAME_TEMPLATE,
+    reverseVars = false,
+    resume = false,
+    concurrency = DEFAULT_CONCURRENCY,
+  } = options;
   const downloadedFiles: string[] = [];
+  const savedFiles: string[] = [];
+  const exclusive = createSerialQueue();
+  const manifest = await readManifest(formsDir);
+  const filenames = planFilenames(forms, env, manifest, filenameTemplate);
+  const checkpoint = await loadCheckpoint(formsDir, 'export', env, resume);
+  const pendingForms = forms.filter((form) => !checkpoint.completed.includes(form.id));
+  if (pendingForms.length < forms.length) {
+    console.log(
+      `Skipping ${forms.length - pendingForms.length} form(s) exported by the interrupted run`
+    );
+  }
+  const stopHandling = handleInterrupts();
 
-  for (const form of forms) {
-    if (verbose) {
-      console.log(`Downloading form: ${form.name} (${form.id})`);
-    }
+  try {
+    await mapWithConcurrency(pendingForms, concurrency, async (form, index) => {
+      if (isInterrupted()) {
+        return;
+      }
 
-    try {
-      // Download form data from API
-      const rawFormData = await downloadForm(env, form.id, verbose);
+      if (verbose) {
+        console.log(`Downloading form: ${form.name} (${form.id})`);
+      }
 
-      // Transform form data by removing unwanted fields
-      const cleanedFormData = transformFormForExport(rawFormData, verbose);
+      try {
+        // Download form data from API
+        const rawFormData = await downloadForm(env, form.id, verbose);
 
-      // Generate filename from form name (sanitized)
-      const sanitizedName = form.name
-        .replace(/[^a-zA-Z0-9\s-_]/g, '') // Remove special characters
-        .replace(/\s+/g, '-') // Replace spaces with hyphens
-        .toLowerCase();
+        // Transform form data by removing unwanted fields
+        const transformed = transformFormForExport(rawFormData, verbose);
+        const cleanedFormData = reverseVars
+          ? insertPlaceholders(transformed, env.variables)
+          : transformed;
 
-      const filename = `${sanitizedName}.json`;
+        const filename = filenames.get(form.id) ?? renderFilename(filenameTemplate, form, env);
 
-      // Save transformed form to file
-      const filePath = await saveFormToFile(cleanedFormData, filename, verbose, promptForOverwrite);
-      if (filePath) { // Only add if file was actually saved
-        downloadedFiles.push(filePath);
+        // Save transformed form to file (non-interactive runs always overwrite).
+        // Saves run one at a time so overwrite prompts never overlap
+        const filePath = await exclusive(() =>
+          saveFormToFile(
+            cleanedFormData,
+            filename,
+            verbose,
+            interactive ? promptForOverwrite : undefined,
+            formsDir
+          )
+        );
+        if (filePath) { // Only add if file was actually saved
+          savedFiles[index] = filePath;
+          recordExport(
+            manifest,
+            filename,
+            env,
+            form.id,
+            cleanedFormData,
+            await collectReferences(env, cleanedFormData, verbose)
+          );
+        }
+        await markCompleted(formsDir, checkpoint, form.id);
+
+      } catch (error) {
+        throw new Error(
+          `Failed to download form "${form.name}" (${form.id}): ${error instanceof Error ? error.message : 'Unknown error'
+          }`
+        );
       }
+    });
+  } finally {
+    stopHandling();
 
-    } catch (error) {
-      throw new Error(
-        `Failed to download form "${form.name}" (${form.id}): ${error instanceof Error ? error.message : 'Unknown error'
-        }`
-      );
+    // Keep the order of the selected forms, whichever finished first
+    downloadedFiles.push(...savedFiles.filter(Boolean));
+
+    // Record provenance for everything saved, even if a later form failed
+    if (downloadedFiles.length > 0) {
+      await writeManifest(formsDir, manifest, verbose);
     }
   }
 
+  // Keep the checkpoint for --resume only when the run was cut short
+  if (!isInterrupted()) {
+    await clearCheckpoint(formsDir, 'export', env);
+  }
   return downloadedFiles;
 }
 
-function transformFormForExport(formData: any, verbose = false): any {
+function planFilenames(
+  forms: FormSummary[],
+  env: EnvConfig,
+  manifest: FormsManifest,
+  template: string
+): Map<string, string> {
+  const { filenames, collisions } = assignFilenames(forms, env, manifest, template);
+  collisions.forEach((collision) => {
+    console.log(`⚠ Filename collision: ${collision}`);
+  });
+  return filenames;
+}
+
+export function setExportSettings(settings: ExportSettings): void {
+  exportSettings = settings;
+}
+
+export function transformFormForExport(formData: any, verbose = false): any {
   if (verbose) {
     console.log('Transforming form data for export...');
   }
 
   // Create a copy to avoid mutating the original
-  const transformed = { ...formData };
+  const transformed = structuredClone(formData);
 
   // Remove the fields that should not be exported
-  delete transformed._links;
-  delete transformed.id;
-  delete transformed.environment;
-  delete transformed.created;
-  delete transformed.modified;
+  const removedFields = [...DEFAULT_STRIPPED_PATHS, ...exportSettings.strip].filter(
+    (path) => !exportSettings.keep.includes(path)
+  );
+  for (const path of removedFields) {
+    removePath(transformed, path);
+  }
+
+  sortFieldsByPosition(transformed);
 
   if (verbose) {
-    const removedFields = ['_links', 'id', 'environment', 'created', 'modified'];
     console.log(`Removed fields: ${removedFields.join(', ')}`);
   }
 
   return transformed;
 }
 
+function sortFieldsByPosition(formData: any): void {
+  const fields = formData?.components?.fields;
+  if (!Array.isArray(fields)) {
+    return;
+  }
+
+  // Fields are laid out by position, so ordering by row then column is safe;
+  // skip sorting if any field lacks a position
+  const hasPositions = fields.every(
+    (field) =>
+      typeof field?.position?.row === 'number' &&
+      typeof field?.position?.col === 'number'
+  );
+  if (hasPositions) {
+    fields.sort(
+      (a, b) => a.position.row - b.position.row || a.position.col - b.position.col
+    );
+  }
+}
+
+export async function planUpload(
+  env: EnvConfig,
+  source: UploadSource,
+  verbose = false,
+  options: UploadOptions = {}
+): Promise<ImportPlan> {
+  const plannedForms = await buildUploadPlan(env, source, verbose, options);
+  return {
+    environment: env.name,
+    entries: plannedForms.map(({ formData: _formData, ...entry }) => entry),
+  };
+}
+
 export async function uploadForms(
   env: EnvConfig,
-  localForms: LocalFormFile[],
-  verbose = false
-): Promise<{ successful: string[]; failed: { filename: string; error: string }[] }> {
-  const successful: string[] = [];
-  const failed: { filename: string; error: string }[] = [];
+  source: UploadSource,
+  verbose = false,
+  options: UploadOptions = {}
+): Promise<UploadResult> {
+  const {
+    atomic = false,
+    resume = false,
+    formsDir = DEFAULT_FORMS_DIR,
+    concurrency = DEFAULT_CONCURRENCY,
+  } = options;
+  const successful: UploadResult['successful'] = [];
+  const failed: UploadResult['failed'] = [];
+  const interrupted: string[] = [];
+  const backup = startBackupRun(env, options.backupDir);
+  const checkpoint = await loadCheckpoint(formsDir, 'import', env, resume);
+
+  console.log('Loading form data...');
+  const plannedForms = await buildUploadPlan(
+    env,
+    withoutCompleted(source, checkpoint.completed),
+    verbose,
+    options
+  );
+
+  // Rejections, such as unresolved references, are reported before anything is written
+  const rejected = plannedForms.filter((planned) => planned.action === 'reject');
+  rejected.forEach((planned) => {
+    console.log(`✗ Rejected ${planned.filename}: ${planned.reason}`);
+  });
+
+  // An atomic batch only starts writing once every form has passed planning
+  if (atomic && rejected.length > 0) {
+    console.log(`✗ Atomic import aborted: ${rejected.length} form(s) rejected before any writes`);
+    for (const planned of plannedForms) {
+      failed.push({
+        filename: planned.filename,
+        error: planned.reason ?? 'Not imported: another form in the batch was rejected',
+      });
+    }
+    return { successful, failed };
+  }
+
+  // Now upload all forms with their configured names
+  console.log('\n=== Starting Upload ===');
+  const stopHandling = handleInterrupts();
+  let aborted = false;
+  try {
+    const outcomes = await mapWithConcurrency(
+      plannedForms,
+      concurrency,
+      async (planned): Promise<UploadOutcome | undefined> => {
+        // An atomic batch starts no new forms once one has failed
+        if (isInterrupted() || aborted) {
+          return undefined;
+        }
+
+        if (verbose) {
+          console.log(`Processing form: ${planned.name} (${planned.filename})`);
+        }
+
+        // Already reported above
+        if (planned.action === 'reject') {
+          return { failure: { filename: planned.filename, error: planned.reason ?? 'Rejected' } };
+        }
+
+        try {
+          const { action, formId } = await applyPlannedForm(env, planned, verbose, backup);
+
+          console.log(`✓ ${capitalize(action)}: ${planned.name}`);
+          await markCompleted(formsDir, checkpoint, planned.filename);
+          return {
+            success: { filename: planned.filename, name: planned.name, formId, action },
+          };
+
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          console.log(`✗ Failed to upload ${planned.filename}: ${errorMessage}`);
+          if (atomic) {
+            aborted = true;
+          }
+          return { failure: { filename: planned.filename, error: errorMessage } };
+        }
+      }
+    );
+
+    // Collect results in plan order, whichever form finished first
+    outcomes.forEach((outcome, index) => {
+      const filename = plannedForms[index]?.filename ?? '';
+      if (outcome && 'success' in outcome) {
+        successful.push(outcome.success);
+      } else if (outcome) {
+        failed.push(outcome.failure);
+      } else if (aborted) {
+        failed.push({ filename, error: 'Not imported: the batch was rolled back' });
+      } else {
+        interrupted.push(filename);
+      }
+    });
+  } finally {
+    stopHandling();
+  }
+
+  const result: UploadResult = { successful, failed };
+  if (backup.run.entries.length > 0) {
+    result.backupRun = backup.run.id;
+  }
+  if (interrupted.length > 0) {
+    result.interrupted = interrupted;
+  }
+
+  if (atomic && (failed.length > 0 || interrupted.length > 0)) {
+    console.log('\n=== Rolling Back ===');
+    result.rollback = await restoreBackupRun(env, backup.dir, backup.run, verbose);
+  }
+
+  // Keep the checkpoint for --resume while forms remain to be imported
+  if (
+    result.rollback ||
+    (!options.keepCheckpoint && failed.length === 0 && interrupted.length === 0)
+  ) {
+    await clearCheckpoint(formsDir, 'import', env);
+  }
+  return result;
+}
+
+function withoutCompleted(source: UploadSource, completed: string[]): UploadSource {
+  if (completed.length === 0) {
+    return source;
+  }
+
+  const filenames = isBundle(source)
+    ? source.forms.map((entry) => entry.filename)
+    : source.map((form) => form.filename);
+  const pending = filenames.filter((filename) => !completed.includes(filename));
+
+  if (pending.length < filenames.length) {
+    console.log(
+      `Skipping ${filenames.length - pending.length} form(s) imported by the interrupted run`
+    );
+  }
+  return isBundle(source)
+    ? filterBundle(source, pending)
+    : source.filter((form) => pending.includes(form.filename));
+}
+
+export async function uploadFormsToEnvironments(
+  environments: EnvConfig[],
+  source: UploadSource,
+  verbose = false,
+  options: UploadOptions = {}
+): Promise<EnvironmentUploadResult[]> {
+  const { formsDir = DEFAULT_FORMS_DIR } = options;
+  const results: EnvironmentUploadResult[] = [];
+  // Finished environments keep their checkpoints until the whole run is done,
+  // so --resume skips them instead of importing their forms a second time
+  const sharedOptions: UploadOptions = {
+    ...(await withSharedFormNames(environments, source, verbose, options)),
+    keepCheckpoint: true,
+  };
+
+  for (const env of environments) {
+    if (isInterrupted()) {
+      break;
+    }
+
+    console.log(`\n=== ${env.name} ===`);
+    const result = await uploadForms(env, source, verbose, sharedOptions);
+    results.push({ environment: env.name, result });
+  }
+
+  const finished =
+    results.length === environments.length &&
+    results.every(({ result }) => result.failed.length === 0 && !result.interrupted);
+  if (finished) {
+    for (const env of environments) {
+      await clearCheckpoint(formsDir, 'import', env);
+    }
+  }
+
+  return results;
+}
+
+export async function planUploadToEnvironments(
+  environments: EnvConfig[],
+  source: UploadSource,
+  verbose = false,
+  options: UploadOptions = {}
+): Promise<ImportPlan[]> {
+  const plans: ImportPlan[] = [];
+  const sharedOptions = await withSharedFormNames(environments, source, verbose, options);
+
+  for (const env of environments) {
+    plans.push(await planUpload(env, source, verbose, sharedOptions));
+  }
+
+  return plans;
+}
+
+// Ask for names once and apply the same configuration to every target
+async function withSharedFormNames(
+  environments: EnvConfig[],
+  source: UploadSource,
+  verbose: boolean,
+  options: UploadOptions
+): Promise<UploadOptions> {
+  const { interactive = true } = options;
+  if (options.nameMap || !interactive) {
+    return options;
+  }
+
+  const nameMap = await promptForSharedFormNames(environments, source, verbose, options);
+  return { ...options, nameMap };
+}
+
+async function promptForSharedFormNames(
+  environments: EnvConfig[],
+  source: UploadSource,
+  verbose: boolean,
+  options: UploadOptions
+): Promise<Map<string, FormNameChoice>> {
+  const {
+    formsDir = DEFAULT_FORMS_DIR,
+    conflictPolicy = DEFAULT_CONFLICT_POLICY,
+  } = options;
+  const bundle = isBundle(source) ? source : undefined;
+  const localForms = isBundle(source) ? bundleToLocalForms(source) : source;
+  const formsWithData: { localForm: LocalFormFile; formData: any }[] = [];
+
+  for (const localForm of localForms) {
+    try {
+      const formData = bundle
+        ? loadFormFromBundle(bundle, localForm.filename)
+        : await loadFormFromFile(localForm.filename, verbose, formsDir);
+      if (validateForm(formData).length === 0) {
+        formsWithData.push({ localForm, formData });
+      }
+    } catch {
+      // Load and validation failures are reported per environment when each plan is built
+    }
+  }
+
+  // A name counts as taken if it exists in any of the targets
+  const existingForms: FormSummary[] = [];
+  for (const env of environments) {
+    try {
+      existingForms.push(...(await apiListForms(env, verbose)));
+    } catch {
+      // Listing failures are reported per environment when each plan is built
+    }
+  }
+
+  return promptForMultipleFormNames(formsWithData, verbose, existingForms, conflictPolicy);
+}
+
+async function buildUploadPlan(
+  env: EnvConfig,
+  source: UploadSource,
+  verbose = false,
+  options: UploadOptions = {}
+): Promise<PlannedForm[]> {
+  const {
+    interactive = true,
+    formsDir = DEFAULT_FORMS_DIR,
+    conflictPolicy = DEFAULT_CONFLICT_POLICY,
+  } = options;
+  const plannedForms: PlannedForm[] = [];
+  const bundle = isBundle(source) ? source : undefined;
+  const localForms = isBundle(source) ? bundleToLocalForms(source) : source;
 
   // First, load all form data and collect names
   const formsWithData: { localForm: LocalFormFile; formData: any }[] = [];
 
-  console.log('Loading form data...');
   for (const localForm of localForms) {
     try {
-      const formData = await loadFormFromFile(localForm.filename, verbose);
+      const rawFormData = bundle
+        ? loadFormFromBundle(bundle, localForm.filename)
+        : await loadFormFromFile(localForm.filename, verbose, formsDir);
+
+      // Fill in {{ var.name }} placeholders with the target environment's values
+      const { formData, missing } = resolvePlaceholders(rawFormData, env.variables);
+      if (missing.length > 0) {
+        plannedForms.push({
+          filename: localForm.filename,
+          name: localForm.name,
+          action: 'reject',
+          reason: `Undefined variable(s) for ${env.name}: ${missing.join(', ')}`,
+          formData: undefined,
+        });
+        continue;
+      }
+
+      // Validate the file as it is, so a missing name is not papered over below
+      const issues = validateForm(formData);
+      if (issues.length > 0) {
+        plannedForms.push({
+          filename: localForm.filename,
+          name: localForm.name,
+          action: 'reject',
+          reason: formatValidationIssues(issues),
+          formData: undefined,
+        });
+        continue;
+      }
       formsWithData.push({ localForm, formData });
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      failed.push({
+      plannedForms.push({
         filename: localForm.filename,
-        error: `Failed to load file: ${errorMessage}`,
+        name: localForm.name,
+        action: 'reject',
+        reason: `Failed to load file: ${errorMessage}`,
+        formData: undefined,
       });
     }
   }
 
   if (formsWithData.length === 0) {
-    return { successful, failed };
+    return plannedForms;
   }
 
-  // Collect all form names upfront
-  const nameMap = await promptForMultipleFormNames(formsWithData, verbose);
+  // Look up the target's forms so re-imports update in place and conflicts
+  // can be decided before any writes
+  let existingForms: FormSummary[];
+  try {
+    existingForms = await apiListForms(env, verbose);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    for (const { localForm, formData } of formsWithData) {
+      plannedForms.push({
+        filename: localForm.filename,
+        name: localForm.name,
+        action: 'reject',
+        reason: `Failed to list existing forms: ${errorMessage}`,
+        formData,
+      });
+    }
+    return plannedForms;
+  }
+
+  // Collect all form names upfront (non-interactive runs keep the file's name)
+  const nameMap =
+    options.nameMap ??
+    (interactive
+      ? await promptForMultipleFormNames(formsWithData, verbose, existingForms, conflictPolicy)
+      : new Map<string, FormNameChoice>());
+
+  const manifest = bundle ? undefined : await readManifest(formsDir);
+  const claimedNames = new Map<string, string>();
 
-  // Now upload all forms with their configured names
-  console.log('\n=== Starting Upload ===');
   for (const { localForm, formData } of formsWithData) {
-    const formName = nameMap.get(localForm.filename) || formData.name || localForm.name;
+    const choice = nameMap.get(localForm.filename);
+    const formName: string = choice?.name || formData.name;
+    const onConflict = choice?.onConflict ?? conflictPolicy;
 
-    if (verbose) {
-      console.log(`Processing form: ${localForm.name} (${localForm.filename})`);
+    // Update form name in the data
+    const updatedFormData = {
+      ...formData,
+      name: formName,
+    };
+    delete updatedFormData.id;
+
+    const planned: PlannedForm = {
+      filename: localForm.filename,
+      name: formName,
+      action: 'reject',
+      formData: updatedFormData,
+    };
+    plannedForms.push(planned);
+
+    // The rest of the form was validated on load; only a chosen name is new
+    const issues = validateFormName(formName);
+    if (issues.length > 0) {
+      planned.reason = formatValidationIssues(issues);
+      continue;
+    }
+
+    const claimedBy = claimedNames.get(formName);
+    if (claimedBy) {
+      planned.reason = `Name "${formName}" is also used by ${claimedBy}`;
+      continue;
     }
+    claimedNames.set(formName, localForm.filename);
 
     try {
-      // Update form name in the data
-      const updatedFormData = {
-        ...formData,
-        name: formName,
-      };
+      // Point references to other resources at their counterparts in the target
+      const { formData: remappedFormData, unresolved } = await remapReferences(
+        env,
+        updatedFormData,
+        bundle
+          ? findBundleEntry(bundle, localForm.filename)?.references
+          : manifest?.forms[localForm.filename]?.references,
+        verbose
+      );
+      if (unresolved.length > 0) {
+        planned.reason = `Unresolved reference(s) in ${env.name}: ${unresolved.join('; ')}`;
+        continue;
+      }
+      planned.formData = remappedFormData;
+
+      const sourceId =
+        (manifest
+          ? manifestFormId(manifest, localForm.filename, env)
+          : bundleFormId(bundle, localForm.filename, env)) ?? formData.id;
+
+      const conflicts = existingForms.filter(
+        (form) => form.id === sourceId || form.name === formName
+      );
+      const [conflict] = conflicts;
+      if (conflict && onConflict !== 'overwrite') {
+        planned.conflict = onConflict;
+        if (onConflict === 'fail') {
+          planned.reason = `Form "${formName}" already exists in ${env.name} (${conflict.id})`;
+        } else if (onConflict === 'skip') {
+          planned.action = 'skip';
+          planned.formId = conflict.id;
+          planned.reason = `Already exists (${conflict.id})`;
+        } else {
+          const newName = uniqueFormName(
+            formName,
+            new Set([...existingForms.map((form) => form.name), ...claimedNames.keys()])
+          );
+          claimedNames.set(newName, localForm.filename);
+          planned.action = 'create';
+          planned.name = newName;
+          planned.formData = { ...remappedFormData, name: newName };
+          planned.reason = `Renamed from "${formName}"`;
+        }
+        continue;
+      }
+
+      const { action, existing } = await resolveUpsertAction(
+        env,
+        remappedFormData,
+        existingForms,
+        verbose,
+        sourceId
+      );
+      planned.action = action;
+      if (existing) {
+        planned.formId = existing.id;
+      }
+    } catch (error) {
+      planned.reason = error instanceof Error ? error.message : 'Unknown error';
+    }
+  }
+
+  return plannedForms;
+}
 
+function findBundleEntry(bundle: FormsBundle, filename: string): BundleEntry | undefined {
+  return bundle.forms.find((form) => form.filename === filename);
+}
+
+function loadFormFromBundle(bundle: FormsBundle, filename: string): any {
+  const entry = findBundleEntry(bundle, filename);
+  if (!entry) {
+    throw new Error(`Form ${filename} not found in bundle`);
+  }
+  return structuredClone(entry.form);
+}
+
+function bundleFormId(
+  bundle: FormsBundle | undefined,
+  filename: string,
+  env: EnvConfig
+): string | undefined {
+  // Like the manifest, source IDs only apply to the environment they came from
+  if (bundle?.sourceEnvironment.id !== env.envId) {
+    return undefined;
+  }
+  return findBundleEntry(bundle, filename)?.sourceFormId;
+}
+
+async function applyPlannedForm(
+  env: EnvConfig,
+  planned: PlannedForm,
+  verbose = false,
+  backup?: BackupContext
+): Promise<{ action: UploadAction; formId: string }> {
+  switch (planned.action) {
+    case 'skip':
+      return {
+        action: planned.conflict === 'skip' ? 'skipped' : 'unchanged',
+        formId: planned.formId ?? '',
+      };
+    case 'update': {
+      const formId = planned.formId ?? '';
+      if (backup) {
+        // Snapshot the current definition so the run can be rolled back
+        await snapshotForm(backup, env, formId, planned.name, verbose);
+      }
       if (verbose) {
-        console.log(`Uploading form "${formName}" to ${env.name}...`);
+        console.log(`Updating form "${planned.name}" (${formId}) in ${env.name}...`);
+      }
+      await updateForm(env, formId, planned.formData, verbose);
+      return { action: 'updated', formId };
+    }
+    case 'create': {
+      if (verbose) {
+        console.log(`Uploading form "${planned.name}" to ${env.name}...`);
       }
 
       // Upload form to PingOne
-      await uploadForm(env, updatedFormData, verbose);
-      successful.push(localForm.filename);
+      const created = await uploadForm(env, planned.formData, verbose);
+      if (backup && created?.id) {
+        await recordCreatedForm(backup, env, created.id, planned.name);
+      }
+      return { action: 'created', formId: created?.id ?? '' };
+    }
+    case 'reject':
+      throw new Error(planned.reason ?? 'Rejected');
+  }
+}
+
+export async function exportBundle(
+  env: EnvConfig,
+  forms: FormSummary[],
+  bundlePath: string,
+  verbose = false,
+  options: DownloadOptions = {}
+): Promise<FormsBundle> {
+  const {
+    filenameTemplate = DEFAULT_FILENAME_TEMPLATE,
+    reverseVars = false,
+    concurrency = DEFAULT_CONCURRENCY,
+  } = options;
+  const filenames = planFilenames(
+    forms,
+    env,
+    { version: 1, forms: {} },
+    filenameTemplate
+  );
 
-      console.log(`✓ Successfully uploaded: ${formName}`);
+  const entries = await mapWithConcurrency(forms, concurrency, async (form) => {
+    if (verbose) {
+      console.log(`Downloading form: ${form.name} (${form.id})`);
+    }
+
+    try {
+      const rawFormData = await downloadForm(env, form.id, verbose);
+      const transformed = transformFormForExport(rawFormData, verbose);
+      const entry: BundleEntry = {
+        filename: filenames.get(form.id) ?? renderFilename(filenameTemplate, form, env),
+        sourceFormId: form.id,
+        form: reverseVars ? insertPlaceholders(transformed, env.variables) : transformed,
+      };
+      const references = await collectReferences(env, transformed, verbose);
+      if (references) {
+        entry.references = references;
+      }
+      return entry;
+    } catch (error) {
+      throw new Error(
+        `Failed to download form "${form.name}" (${form.id}): ${error instanceof Error ? error.message : 'Unknown error'
+        }`
+      );
+    }
+  });
+
+  const bundle = createBundle(env, entries);
+  await writeBundle(bundlePath, bundle, verbose);
+  return bundle;
+}
+
+export async function promoteForms(
+  source: EnvConfig,
+  target: EnvConfig,
+  forms: FormSummary[],
+  verbose = false,
+  options: PromoteOptions = {}
+): Promise<PromoteResult> {
+  const {
+    save = false,
+    interactive = true,
+    formsDir = DEFAULT_FORMS_DIR,
+    filenameTemplate = DEFAULT_FILENAME_TEMPLATE,
+  } = options;
+  const successful: PromoteResult['successful'] = [];
+  const failed: PromoteResult['failed'] = [];
+  const backup = startBackupRun(target, options.backupDir);
+  const manifest = save ? await readManifest(formsDir) : undefined;
+  const filenames = manifest
+    ? planFilenames(forms, source, manifest, filenameTemplate)
+    : new Map<string, string>();
+
+  let existingForms: FormSummary[];
+  try {
+    existingForms = await apiListForms(target, verbose);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    for (const form of forms) {
+      failed.push({
+        name: form.name,
+        error: `Failed to list existing forms: ${errorMessage}`,
+      });
+    }
+    return { successful, failed };
+  }
+
+  for (const form of forms) {
+    if (verbose) {
+      console.log(`Promoting form: ${form.name} (${form.id}) from ${source.name} to ${target.name}`);
+    }
+
+    try {
+      const rawFormData = await downloadForm(source, form.id, verbose);
+      const cleanedFormData = transformFormForExport(rawFormData, verbose);
+      const references = await collectReferences(source, cleanedFormData, verbose);
+
+      if (manifest) {
+        const filename =
+          filenames.get(form.id) ?? renderFilename(filenameTemplate, form, source);
+        const filePath = await saveFormToFile(
+          cleanedFormData,
+          filename,
+          verbose,
+          interactive ? promptForOverwrite : undefined,
+          formsDir
+        );
+        if (filePath) {
+          recordExport(manifest, filename, source, form.id, cleanedFormData, references);
+        }
+      }
+
+      // Swap the source environment's values for the target's, but only where
+      // a string is exactly a variable value, so free text is never rewritten
+      const { formData: targetFormData, missing } = resolvePlaceholders(
+        insertPlaceholders(cleanedFormData, source.variables, { wholeValues: true }),
+        target.variables
+      );
+      if (missing.length > 0) {
+        throw new Error(`Undefined variable(s) for ${target.name}: ${missing.join(', ')}`);
+      }
+
+      const { formData: remappedFormData, unresolved } = await remapReferences(
+        target,
+        targetFormData,
+        references,
+        verbose
+      );
+      if (unresolved.length > 0) {
+        throw new Error(
+          `Unresolved reference(s) in ${target.name}: ${unresolved.join('; ')}`
+        );
+      }
+
+      const { action, formId } = await upsertForm(
+        target,
+        remappedFormData,
+        existingForms,
+        verbose,
+        backup
+      );
+
+      successful.push({
+        name: form.name,
+        sourceId: form.id,
+        formId,
+        action,
+      });
+
+      console.log(`✓ ${capitalize(action)}: ${form.name}`);
 
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       failed.push({
-        filename: localForm.filename,
+        name: form.name,
         error: errorMessage,
       });
 
-      console.log(`✗ Failed to upload ${localForm.filename}: ${errorMessage}`);
+      console.log(`✗ Failed to promote ${form.name}: ${errorMessage}`);
     }
   }
 
-  return { successful, failed };
+  if (manifest && Object.keys(manifest.forms).length > 0) {
+    await writeManifest(formsDir, manifest, verbose);
+  }
+
+  const result: PromoteResult = { successful, failed };
+  if (backup.run.entries.length > 0) {
+    result.backupRun = backup.run.id;
+  }
+  return result;
+}
+
+export async function rollbackRun(
+  env: EnvConfig,
+  runId: string,
+  verbose = false,
+  backupDir = DEFAULT_BACKUP_DIR
+): Promise<RollbackResult> {
+  const run = await readBackupRun(backupDir, env, runId);
+  if (run.environment.id !== env.envId) {
+    throw new Error(
+      `Backup run ${runId} belongs to ${run.environment.name}, not ${env.name}`
+    );
+  }
+
+  return restoreBackupRun(env, backupDir, run, verbose);
+}
+
+async function restoreBackupRun(
+  env: EnvConfig,
+  backupDir: string,
+  run: BackupRun,
+  verbose = false
+): Promise<RollbackResult> {
+  const runId = run.id;
+  const successful: RollbackResult['successful'] = [];
+  const failed: RollbackResult['failed'] = [];
+
+  // Undo in reverse order of the writes
+  for (const entry of [...run.entries].reverse()) {
+    try {
+      if (entry.action === 'created') {
+        await deleteForm(env, entry.formId, verbose);
+        successful.push({ formId: entry.formId, name: entry.name, action: 'deleted' });
+        console.log(`✓ Deleted: ${entry.name}`);
+        continue;
+      }
+
+      if (!entry.snapshot) {
+        throw new Error('No snapshot recorded');
+      }
+      const snapshot = await readSnapshot(backupDir, env, runId, entry.snapshot);
+      const body = structuredClone(snapshot);
+      for (const path of DEFAULT_STRIPPED_PATHS) {
+        removePath(body, path);
+      }
+
+      await updateForm(env, entry.formId, body, verbose);
+      successful.push({ formId: entry.formId, name: entry.name, action: 'restored' });
+      console.log(`✓ Restored: ${entry.name}`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      failed.push({ formId: entry.formId, name: entry.name, error: errorMessage });
+      console.log(`✗ Failed to roll back ${entry.name}: ${errorMessage}`);
+    }
+  }
+
+  return { runId, successful, failed };
+}
+
+export async function diffLocalForm(
+  env: EnvConfig,
+  filePath: string,
+  verbose = false,
+  formNameOrId?: string
+): Promise<DiffEntry[]> {
+  const { formData: localFormData } = resolvePlaceholders(
+    await readFormFile(filePath, verbose),
+    env.variables
+  );
+  // The manifest sits next to the files it describes
+  const manifest = await readManifest(dirname(filePath));
+  const lookup =
+    formNameOrId ||
+    manifestFormId(manifest, basename(filePath), env) ||
+    localFormData.name;
+
+  if (!lookup) {
+    throw new Error(`Form file ${filePath} has no name; specify the remote form with --form`);
+  }
+
+  const remoteForm = findForm(await apiListForms(env, verbose), lookup);
+  if (!remoteForm) {
+    throw new Error(`Form "${lookup}" not found in ${env.name}`);
+  }
+
+  const remoteFormData = await downloadForm(env, remoteForm.id, verbose);
+  return diffForms(
+    transformFormForExport(remoteFormData),
+    transformFormForExport(localFormData)
+  );
+}
+
+export async function diffRemoteForms(
+  source: EnvConfig,
+  target: EnvConfig,
+  formNameOrId: string,
+  verbose = false
+): Promise<DiffEntry[]> {
+  const sourceForm = findForm(await apiListForms(source, verbose), formNameOrId);
+  if (!sourceForm) {
+    throw new Error(`Form "${formNameOrId}" not found in ${source.name}`);
+  }
+
+  const targetForm = findForm(await apiListForms(target, verbose), sourceForm.name);
+  if (!targetForm) {
+    throw new Error(`Form "${sourceForm.name}" not found in ${target.name}`);
+  }
+
+  const [sourceFormData, targetFormData] = await Promise.all([
+    downloadForm(source, sourceForm.id, verbose),
+    downloadForm(target, targetForm.id, verbose),
+  ]);
+  // Values that differ only by environment variable are not reported
+  return diffForms(
+    insertPlaceholders(transformFormForExport(targetFormData), target.variables, {
+      wholeValues: true,
+    }),
+    insertPlaceholders(transformFormForExport(sourceFormData), source.variables, {
+      wholeValues: true,
+    })
+  );
+}
+
+export async function getFormsStatus(
+  env: EnvConfig,
+  verbose = false,
+  formsDir = DEFAULT_FORMS_DIR
+): Promise<StatusReport> {
+  const report: StatusReport = {
+    environment: env.name,
+    onlyLocal: [],
+    onlyRemote: [],
+    identical: [],
+    changed: [],
+    invalid: [],
+  };
+
+  const [localForms, remoteForms] = await Promise.all([
+    scanFormsDir(formsDir),
+    apiListForms(env, verbose),
+  ]);
+  const manifest = await readManifest(formsDir);
+  const matchedIds = new Set<string>();
+
+  for (const localForm of localForms) {
+    if (!localForm.isValid) {
+      report.invalid.push({
+        name: localForm.name,
+        filename: localForm.filename,
+        error: localForm.error ?? 'Invalid JSON format',
+      });
+      continue;
+    }
+
+    const { formData: localFormData } = resolvePlaceholders(
+      await loadFormFromFile(localForm.filename, verbose, formsDir),
+      env.variables
+    );
+    const name: string = localFormData.name || localForm.name;
+    const sourceId = manifestFormId(manifest, localForm.filename, env);
+    const remoteForm =
+      remoteForms.find((form) => form.id === sourceId) ??
+      remoteForms.find((form) => form.name === name);
+
+    if (!remoteForm) {
+      report.onlyLocal.push({ name, filename: localForm.filename });
+      continue;
+    }
+
+    matchedIds.add(remoteForm.id);
+    const remoteFormData = await downloadForm(env, remoteForm.id, verbose);
+    const entry = { name, filename: localForm.filename, formId: remoteForm.id };
+
+    if (
+      formsEqual(
+        transformFormForExport(remoteFormData),
+        transformFormForExport(localFormData)
+      )
+    ) {
+      report.identical.push(entry);
+    } else {
+      report.changed.push(entry);
+    }
+  }
+
+  for (const remoteForm of remoteForms) {
+    if (!matchedIds.has(remoteForm.id)) {
+      report.onlyRemote.push({ name: remoteForm.name, formId: remoteForm.id });
+    }
+  }
+
+  return report;
+}
+
+async function upsertForm(
+  env: EnvConfig,
+  formData: any,
+  existingForms: FormSummary[],
+  verbose = false,
+  backup?: BackupContext
+): Promise<{ action: UploadAction; formId: string }> {
+  const body = { ...formData };
+  delete body.id;
+
+  const { action, existing } = await resolveUpsertAction(
+    env,
+    body,
+    existingForms,
+    verbose
+  );
+  const planned: PlannedForm = {
+    filename: '',
+    name: body.name,
+    action,
+    formData: body,
+  };
+  if (existing) {
+    planned.formId = existing.id;
+  }
+
+  const result = await applyPlannedForm(env, planned, verbose, backup);
+  if (result.action === 'created' && result.formId) {
+    existingForms.push({ id: result.formId, name: body.name });
+  }
+  return result;
+}
+
+async function resolveUpsertAction(
+  env: EnvConfig,
+  body: any,
+  existingForms: FormSummary[],
+  verbose = false,
+  sourceId?: string
+): Promise<{ action: 'create' | 'update' | 'skip'; existing?: FormSummary }> {
+  const existing = findExistingForm(existingForms, body.name, sourceId);
+
+  if (!existing) {
+    return { action: 'create' };
+  }
+
+  const remoteFormData = await downloadForm(env, existing.id, verbose);
+  if (
+    formsEqual(transformFormForExport(remoteFormData), transformFormForExport(body))
+  ) {
+    return { action: 'skip', existing };
+  }
+  return { action: 'update', existing };
+}
+
+function findExistingForm(
+  existingForms: FormSummary[],
+  name: string,
+  sourceId?: string
+): FormSummary | undefined {
+  if (sourceId) {
+    const byId = existingForms.find((form) => form.id === sourceId);
+    if (byId) {
+      return byId;
+    }
+  }
+
+  const byName = existingForms.filter((form) => form.name === name);
+  if (byName.length > 1) {
+    throw new Error(
+      `Found ${byName.length} forms named "${name}"; cannot determine which one to update`
+    );
+  }
+  return byName[0];
+}
+
+function formsEqual(a: any, b: any): boolean {
+  return stableStringify(a) === stableStringify(b);
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
 }
@@ -1,20 +1,44 @@
 import { readdir, readFile, access, writeFile, mkdir } from 'fs/promises';
 import { join } from 'path';
+import { validateForm, formatValidationIssues } from './validate.js';
+import { isReservedFilename } from './naming.js';
+import { canonicalJson } from './json.js';
 import type { LocalFormFile } from './types.js';
 
-const FORMS_DIR = './forms';
+export const DEFAULT_FORMS_DIR = './forms';
 
-export async function scanFormsDir(): Promise<LocalFormFile[]> {
+export function resolveFormsDir(
+  baseDir = DEFAULT_FORMS_DIR,
+  envName?: string
+): string {
+  if (!envName) {
+    return baseDir;
+  }
+
+  // One subfolder per environment, e.g. forms/dev-us/
+  const envDir = envName
+    .toLowerCase()
+    .replace(/[^a-z0-9\s-_]/g, '')
+    .trim()
+    .replace(/\s+/g, '-');
+  return join(baseDir, envDir || 'default');
+}
+
+export async function scanFormsDir(
+  formsDir = DEFAULT_FORMS_DIR
+): Promise<LocalFormFile[]> {
   try {
     // Check if forms directory exists
-    await access(FORMS_DIR);
+    await access(formsDir);
   } catch {
     return []; // Directory doesn't exist
   }
 
   try {
-    const files = await readdir(FORMS_DIR);
-    const jsonFiles = files.filter((file) => file.endsWith('.json'));
+    const files = await readdir(formsDir);
+    const jsonFiles = files.filter(
+      (file) => file.endsWith('.json') && !isReservedFilename(file)
+    );
 
     if (jsonFiles.length === 0) {
       return [];
@@ -23,17 +47,27 @@ export async function scanFormsDir(): Promise<LocalFormFile[]> {
     const formFiles: LocalFormFile[] = [];
 
     for (const filename of jsonFiles) {
-      const filePath = join(FORMS_DIR, filename);
+      const filePath = join(formsDir, filename);
       const name = filename.replace('.json', '');
 
       try {
         const content = await readFile(filePath, 'utf-8');
-        JSON.parse(content); // Validate JSON
-        formFiles.push({
-          filename,
-          name,
-          isValid: true,
-        });
+        const issues = validateForm(JSON.parse(content));
+        if (issues.length > 0) {
+          formFiles.push({
+            filename,
+            name,
+            isValid: false,
+            error: formatValidationIssues(issues),
+            issues,
+          });
+        } else {
+          formFiles.push({
+            filename,
+            name,
+            isValid: true,
+          });
+        }
       } catch (error) {
         formFiles.push({
           filename,
@@ -58,20 +92,21 @@ export async function saveFormToFile(
   formData: any,
   filename: string,
   verbose = false,
-  promptForOverwrite?: (filename: string, verbose?: boolean) => Promise<boolean>
+  promptForOverwrite?: (filename: string, verbose?: boolean) => Promise<boolean>,
+  formsDir = DEFAULT_FORMS_DIR
 ): Promise<string> {
   try {
     // Ensure forms directory exists
     try {
-      await access(FORMS_DIR);
+      await access(formsDir);
     } catch {
       if (verbose) {
-        console.log(`Creating forms directory: ${FORMS_DIR}`);
+        console.log(`Creating forms directory: ${formsDir}`);
       }
-      await mkdir(FORMS_DIR, { recursive: true });
+      await mkdir(formsDir, { recursive: true });
     }
 
-    const filePath = join(FORMS_DIR, filename);
+    const filePath = join(formsDir, filename);
 
     // Check if file already exists
     let fileExists = false;
@@ -93,7 +128,7 @@ export async function saveFormToFile(
       }
     }
 
-    const jsonContent = JSON.stringify(formData, null, 2);
+    const jsonContent = canonicalJson(formData);
     await writeFile(filePath, jsonContent, 'utf-8');
 
     if (verbose) {
@@ -112,11 +147,17 @@ export async function saveFormToFile(
 
 export async function loadFormFromFile(
   filename: string,
+  verbose = false,
+  formsDir = DEFAULT_FORMS_DIR
+): Promise<any> {
+  return readFormFile(join(formsDir, filename), verbose);
+}
+
+export async function readFormFile(
+  filePath: string,
   verbose = false
 ): Promise<any> {
   try {
-    const filePath = join(FORMS_DIR, filename);
-
     if (verbose) {
       console.log(`Loading form from: ${filePath}`);
     }
@@ -131,7 +172,7 @@ export async function loadFormFromFile(
     return formData;
   } catch (error) {
     throw new Error(
-      `Failed to load form from file ${filename}: ${error instanceof Error ? error.message : 'Unknown error'
+      `Failed to load form from file ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'
       }`
     );
   }
@@ -0,0 +1,27 @@
+let interrupted = false;
+
+/**
+ * Lets a batch finish its current form on Ctrl+C instead of exiting mid-write.
+ * A second Ctrl+C exits immediately. Returns a function that removes the handler.
+ */
+export function handleInterrupts(): () => void {
+  interrupted = false;
+
+  const onSigint = (): void => {
+    if (interrupted) {
+      console.log('\nExiting immediately.');
+      process.exit(130);
+    }
+    interrupted = true;
+    console.log('\nStopping after the current form... (press Ctrl+C again to exit now)');
+  };
+
+  process.on('SIGINT', onSigint);
+  return () => {
+    process.off('SIGINT', onSigint);
+  };
+}
+
+export function isInterrupted(): boolean {
+  return interrupted;
+}
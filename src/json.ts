@@ -0,0 +1,102 @@
+export function stableStringify(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .filter((key) => value[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export function sortKeys(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, sortKeys(value[key])])
+    );
+  }
+  return value;
+}
+
+export function canonicalJson(value: any): string {
+  return `${JSON.stringify(sortKeys(value), null, 2)}\n`;
+}
+
+/**
+ * Returns a copy of `value` with `transform` applied to every string inside it.
+ */
+export function mapStrings(value: any, transform: (value: string) => string): any {
+  if (typeof value === 'string') {
+    return transform(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => mapStrings(item, transform));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, mapStrings(item, transform)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Calls `visit` for every string inside `value`.
+ */
+export function forEachString(value: any, visit: (value: string) => void): void {
+  if (typeof value === 'string') {
+    visit(value);
+  } else if (value && typeof value === 'object') {
+    Object.values(value).forEach((item) => forEachString(item, visit));
+  }
+}
+
+/**
+ * Removes every match of a dotted JSON path such as `components.fields[*].id`.
+ * `*` matches every array item or object property.
+ */
+export function removePath(value: any, path: string): void {
+  removeSegments(value, parsePath(path));
+}
+
+function parsePath(path: string): string[] {
+  return path
+    .replace(/\[([^\]]*)\]/g, '.$1')
+    .split('.')
+    .filter((segment) => segment.length > 0);
+}
+
+function removeSegments(value: any, segments: string[]): void {
+  if (!value || typeof value !== 'object' || segments.length === 0) {
+    return;
+  }
+
+  const [segment = '', ...rest] = segments;
+  const keys = segment === '*' ? Object.keys(value) : [segment];
+  if (Array.isArray(value)) {
+    keys.reverse(); // Splice from the end so earlier indexes stay valid
+  }
+
+  for (const key of keys) {
+    if (!(key in value)) {
+      continue;
+    }
+    if (rest.length === 0) {
+      if (Array.isArray(value)) {
+        value.splice(Number(key), 1);
+      } else {
+        delete value[key];
+      }
+    } else {
+      removeSegments(value[key], rest);
+    }
+  }
+}
@@ -0,0 +1,78 @@
+import { createPrivateKey, randomUUID, sign, type KeyObject } from 'crypto';
+import { readFileSync } from 'fs';
+import type { EnvConfig, SigningAlgorithm } from './types.js';
+
+export const SIGNING_ALGORITHMS: SigningAlgorithm[] = ['RS256', 'ES256'];
+export const CLIENT_ASSERTION_TYPE = 'urn:ietf:params:oauth:client-assertion-type:jwt-bearer';
+
+// Assertions are used once, right away, so a short lifetime is enough
+const ASSERTION_LIFETIME_SECONDS = 60;
+
+/**
+ * Reads a PEM private key and checks that it can sign with the algorithm.
+ * Without an algorithm, RS256 is used for RSA keys and ES256 for P-256 keys.
+ */
+function loadSigningKey(
+  path: string,
+  algorithm?: SigningAlgorithm
+): { key: KeyObject; algorithm: SigningAlgorithm } {
+  let key: KeyObject;
+  try {
+    key = createPrivateKey(readFileSync(path, 'utf-8'));
+  } catch (error) {
+    throw new Error(
+      `Cannot read private key ${path}: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+
+  const isRsa = key.asymmetricKeyType === 'rsa';
+  const isP256 =
+    key.asymmetricKeyType === 'ec' && key.asymmetricKeyDetails?.namedCurve === 'prime256v1';
+  const resolved = algorithm ?? (isP256 ? 'ES256' : 'RS256');
+
+  if ((resolved === 'RS256' && !isRsa) || (resolved === 'ES256' && !isP256)) {
+    throw new Error(
+      `Private key ${path} cannot sign ${resolved}: RS256 needs an RSA key and ES256 a P-256 EC key`
+    );
+  }
+  return { key, algorithm: resolved };
+}
+
+export function createClientAssertion(env: EnvConfig, audience: string): string {
+  if (!env.privateKeyPath) {
+    throw new Error(`No privateKeyPath configured for ${env.name}`);
+  }
+
+  let signingKey: ReturnType<typeof loadSigningKey>;
+  try {
+    signingKey = loadSigningKey(env.privateKeyPath, env.signingAlgorithm);
+  } catch (error) {
+    throw new Error(
+      `Cannot authenticate with ${env.name}: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+  const { key, algorithm } = signingKey;
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const header = { alg: algorithm, typ: 'JWT', ...(env.keyId ? { kid: env.keyId } : {}) };
+  const payload = {
+    iss: env.clientId,
+    sub: env.clientId,
+    aud: audience,
+    iat: issuedAt,
+    exp: issuedAt + ASSERTION_LIFETIME_SECONDS,
+    jti: randomUUID(),
+  };
+
+  const signingInput = `${base64Url(JSON.stringify(header))}.${base64Url(JSON.stringify(payload))}`;
+  // JWS wants ECDSA signatures as raw r||s rather than DER
+  const signature = sign('sha256', Buffer.from(signingInput), {
+    key,
+    ...(algorithm === 'ES256' ? { dsaEncoding: 'ieee-p1363' as const } : {}),
+  });
+
+  return `${signingInput}.${base64Url(signature)}`;
+}
+
+function base64Url(value: string | Buffer): string {
+  return Buffer.from(value).toString('base64url');
+}
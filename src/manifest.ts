@@ -0,0 +1,81 @@
+import { readFile, writeFile, mkdir } from 'fs/promises';
+import { createHash } from 'crypto';
+import { join } from 'path';
+import { stableStringify, canonicalJson } from './json.js';
+import { MANIFEST_FILENAME } from './constants.js';
+import type { EnvConfig, FormsManifest, ManifestEntry, ReferenceMap } from './types.js';
+
+const MANIFEST_VERSION = 1;
+
+export async function readManifest(formsDir: string): Promise<FormsManifest> {
+  const manifestPath = join(formsDir, MANIFEST_FILENAME);
+
+  let content: string;
+  try {
+    content = await readFile(manifestPath, 'utf-8');
+  } catch {
+    return { version: MANIFEST_VERSION, forms: {} }; // No manifest yet
+  }
+
+  try {
+    const manifest = JSON.parse(content);
+    if (!manifest || typeof manifest.forms !== 'object') {
+      throw new Error('missing "forms" map');
+    }
+    return manifest as FormsManifest;
+  } catch (error) {
+    throw new Error(
+      `Invalid manifest ${manifestPath}: ${error instanceof Error ? error.message : 'Unknown error'
+      }`
+    );
+  }
+}
+
+export async function writeManifest(
+  formsDir: string,
+  manifest: FormsManifest,
+  verbose = false
+): Promise<void> {
+  const manifestPath = join(formsDir, MANIFEST_FILENAME);
+  await mkdir(formsDir, { recursive: true });
+  await writeFile(manifestPath, canonicalJson(manifest), 'utf-8');
+
+  if (verbose) {
+    console.log(`Updated manifest: ${manifestPath}`);
+  }
+}
+
+export function recordExport(
+  manifest: FormsManifest,
+  filename: string,
+  env: EnvConfig,
+  formId: string,
+  formData: any,
+  references?: ReferenceMap
+): void {
+  const entry: ManifestEntry = {
+    formName: formData.name,
+    sourceEnvironment: { name: env.name, id: env.envId },
+    sourceFormId: formId,
+    exportedAt: new Date().toISOString(),
+    contentHash: contentHash(formData),
+  };
+  if (references) {
+    entry.references = references;
+  }
+  manifest.forms[filename] = entry;
+}
+
+export function contentHash(formData: any): string {
+  return `sha256:${createHash('sha256').update(stableStringify(formData)).digest('hex')}`;
+}
+
+export function manifestFormId(
+  manifest: FormsManifest,
+  filename: string,
+  env: EnvConfig
+): string | undefined {
+  // Source IDs only mean something in the environment they were exported from
+  const entry: ManifestEntry | undefined = manifest.forms[filename];
+  return entry?.sourceEnvironment.id === env.envId ? entry.sourceFormId : undefined;
+}
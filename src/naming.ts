@@ -0,0 +1,90 @@
+import { MANIFEST_FILENAME, CHECKPOINT_PREFIX } from './constants.js';
+import type { EnvConfig, FormSummary, FormsManifest } from './types.js';
+
+export const DEFAULT_FILENAME_TEMPLATE = '{name}';
+
+export function isReservedFilename(filename: string): boolean {
+  return filename === MANIFEST_FILENAME || filename.startsWith(CHECKPOINT_PREFIX);
+}
+
+export function slugify(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '') // Drop combining accents: "Café" -> "Cafe"
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+    .trim()
+    .replace(/\s+/g, '-')
+    .replace(/-{2,}/g, '-');
+}
+
+export function renderFilename(
+  template: string,
+  form: FormSummary,
+  env: EnvConfig
+): string {
+  const rendered = template
+    .replace(/\{name\}/g, slugify(form.name) || `form-${form.id.slice(0, 8)}`)
+    .replace(/\{id\}/g, form.id)
+    .replace(/\{env\}/g, slugify(env.name));
+
+  // Never let a template escape the forms directory
+  const safe = rendered.replace(/[\\/]/g, '-');
+  return safe.endsWith('.json') ? safe : `${safe}.json`;
+}
+
+/**
+ * Chooses a filename for every form before anything is written. Names that
+ * collide within the batch, with a file the manifest attributes to a different
+ * form, or with the tool's own files, get an ID-based suffix.
+ */
+export function assignFilenames(
+  forms: FormSummary[],
+  env: EnvConfig,
+  manifest: FormsManifest,
+  template = DEFAULT_FILENAME_TEMPLATE
+): { filenames: Map<string, string>; collisions: string[] } {
+  const owners = new Map<string, string>();
+  for (const [filename, entry] of Object.entries(manifest.forms)) {
+    if (entry.sourceEnvironment.id === env.envId) {
+      owners.set(filename, entry.sourceFormId);
+    }
+  }
+
+  const baseNames = forms.map((form) => renderFilename(template, form, env));
+  const counts = new Map<string, number>();
+  for (const filename of baseNames) {
+    counts.set(filename, (counts.get(filename) ?? 0) + 1);
+  }
+
+  const filenames = new Map<string, string>();
+  const collisions: string[] = [];
+  const taken = new Set<string>();
+
+  forms.forEach((form, index) => {
+    const baseName = baseNames[index] ?? renderFilename(template, form, env);
+    const owner = owners.get(baseName);
+    let filename = baseName;
+
+    const collides =
+      (counts.get(baseName) ?? 0) > 1 ||
+      (owner !== undefined && owner !== form.id) ||
+      taken.has(baseName) ||
+      isReservedFilename(baseName);
+
+    if (collides) {
+      const stem = baseName.replace(/\.json$/, '');
+      filename = `${stem}-${form.id.slice(0, 8)}.json`;
+      const shortOwner = owners.get(filename);
+      if (taken.has(filename) || (shortOwner !== undefined && shortOwner !== form.id)) {
+        filename = `${stem}-${form.id}.json`;
+      }
+      collisions.push(`"${form.name}" collides on ${baseName}; saving as ${filename}`);
+    }
+
+    taken.add(filename);
+    filenames.set(form.id, filename);
+  });
+
+  return { filenames, collisions };
+}
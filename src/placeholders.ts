@@ -0,0 +1,74 @@
+import { mapStrings } from './json.js';
+
+const PLACEHOLDER_PATTERN = /\{\{\s*var\.([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+export function placeholderFor(name: string): string {
+  return `{{ var.${name} }}`;
+}
+
+export function resolvePlaceholders(
+  formData: any,
+  variables: Record<string, string> = {}
+): { formData: any; missing: string[] } {
+  const missing = new Set<string>();
+
+  const resolved = mapStrings(formData, (value) =>
+    value.replace(PLACEHOLDER_PATTERN, (match, name: string) => {
+      const replacement = variables[name];
+      if (replacement === undefined) {
+        missing.add(name);
+        return match;
+      }
+      return replacement;
+    })
+  );
+
+  return { formData: resolved, missing: [...missing].sort() };
+}
+
+/**
+ * Turns known variable values back into placeholders. By default a value is
+ * replaced wherever it appears as a token of its own, i.e. not inside a longer
+ * word; with `wholeValues` only strings that equal a value exactly are.
+ */
+export function insertPlaceholders(
+  formData: any,
+  variables: Record<string, string> = {},
+  options: { wholeValues?: boolean } = {}
+): any {
+  const names = new Map<string, string>();
+  Object.entries(variables).forEach(([name, value]) => {
+    if (value.length > 0 && !names.has(value)) {
+      names.set(value, name);
+    }
+  });
+
+  if (names.size === 0) {
+    return formData;
+  }
+
+  const replace = (value: string): string => {
+    const name = names.get(value);
+    return name === undefined ? value : placeholderFor(name);
+  };
+
+  if (options.wholeValues) {
+    return mapStrings(formData, replace);
+  }
+
+  // One pass over the original text: output is never rescanned, and listing
+  // longer values first makes a value containing another one win
+  const alternatives = [...names.keys()]
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp);
+  const pattern = new RegExp(
+    `(?<![\\p{L}\\p{N}_])(?:${alternatives.join('|')})(?![\\p{L}\\p{N}_])`,
+    'gu'
+  );
+
+  return mapStrings(formData, (value) => value.replace(pattern, replace));
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,51 @@
+import type { EnvConfig } from './types.js';
+
+export const DEFAULT_REQUESTS_PER_SECOND = 20;
+
+interface TokenBucket {
+  rate: number;
+  capacity: number;
+  tokens: number;
+  updatedAt: number;
+  queue: Promise<void>;
+}
+
+// One bucket per environment, shared by every API client created for it
+const buckets = new Map<string, TokenBucket>();
+
+/**
+ * Waits until the environment's token bucket allows another request. Up to one
+ * second's worth of requests may go out in a burst.
+ */
+export function acquireRequestSlot(env: EnvConfig): Promise<void> {
+  let bucket = buckets.get(env.envId);
+  if (!bucket) {
+    const rate = env.requestsPerSecond ?? DEFAULT_REQUESTS_PER_SECOND;
+    const capacity = Math.max(1, rate);
+    bucket = { rate, capacity, tokens: capacity, updatedAt: Date.now(), queue: Promise.resolve() };
+    buckets.set(env.envId, bucket);
+  }
+
+  // Waiting callers are served in the order they asked
+  const current = bucket;
+  const slot = current.queue.then(() => takeToken(current));
+  current.queue = slot;
+  return slot;
+}
+
+async function takeToken(bucket: TokenBucket): Promise<void> {
+  refill(bucket);
+  if (bucket.tokens < 1) {
+    const delay = ((1 - bucket.tokens) / bucket.rate) * 1000;
+    await new Promise((resolve) => setTimeout(resolve, delay));
+    refill(bucket);
+  }
+  bucket.tokens -= 1;
+}
+
+function refill(bucket: TokenBucket): void {
+  const now = Date.now();
+  const elapsed = (now - bucket.updatedAt) / 1000;
+  bucket.tokens = Math.min(bucket.capacity, bucket.tokens + elapsed * bucket.rate);
+  bucket.updatedAt = now;
+}
@@ -0,0 +1,124 @@
+import { listResources } from './api.js';
+import { mapStrings, forEachString } from './json.js';
+import type { EnvConfig, ReferenceMap, ResourceReference } from './types.js';
+
+// Environment-scoped resources that a form can point at by ID
+export const REFERENCE_RESOURCE_TYPES = ['populations', 'groups', 'applications'];
+
+const UUID_PATTERN = /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi;
+
+type IndexedResource = ResourceReference & { id: string };
+
+// Resource listings are fetched at most once per environment and run
+const resourceCache = new Map<string, Promise<IndexedResource[]>>();
+
+export function findUuids(formData: any): string[] {
+  const ids = new Set<string>();
+  forEachString(formData, (value) => {
+    for (const match of value.match(UUID_PATTERN) ?? []) {
+      ids.add(match.toLowerCase());
+    }
+  });
+  return [...ids].sort();
+}
+
+export async function collectReferences(
+  env: EnvConfig,
+  formData: any,
+  verbose = false
+): Promise<ReferenceMap | undefined> {
+  const ids = findUuids(formData);
+  if (ids.length === 0) {
+    return undefined;
+  }
+
+  const resources = await getResources(env, verbose);
+  const references: ReferenceMap = {};
+  for (const id of ids) {
+    const resource = resources.find((item) => item.id.toLowerCase() === id);
+    if (resource) {
+      references[id] = { type: resource.type, name: resource.name };
+    }
+  }
+
+  return Object.keys(references).length > 0 ? references : undefined;
+}
+
+export async function remapReferences(
+  env: EnvConfig,
+  formData: any,
+  references: ReferenceMap = {},
+  verbose = false
+): Promise<{ formData: any; unresolved: string[] }> {
+  const overrides = env.referenceOverrides ?? {};
+  const mapping = new Map<string, string>();
+  const unresolved: string[] = [];
+
+  for (const id of findUuids(formData)) {
+    // Manual overrides win over name matching
+    const override = overrides[id];
+    if (override) {
+      mapping.set(id, override);
+      continue;
+    }
+
+    // IDs that were not a known resource at export time are left as they are
+    const reference = references[id];
+    if (!reference) {
+      continue;
+    }
+
+    const matches = (await getResources(env, verbose)).filter(
+      (resource) => resource.type === reference.type && resource.name === reference.name
+    );
+    const [match] = matches;
+    if (match && matches.length === 1) {
+      mapping.set(id, match.id);
+      if (verbose && match.id.toLowerCase() !== id) {
+        console.log(`Remapping ${reference.type} "${reference.name}": ${id} → ${match.id}`);
+      }
+    } else {
+      unresolved.push(
+        `"${reference.name}" in ${reference.type} (${id}${matches.length > 1 ? ', ambiguous' : ''})`
+      );
+    }
+  }
+
+  if (mapping.size === 0) {
+    return { formData, unresolved };
+  }
+
+  return {
+    formData: mapStrings(formData, (value) =>
+      value.replace(UUID_PATTERN, (match) => mapping.get(match.toLowerCase()) ?? match)
+    ),
+    unresolved,
+  };
+}
+
+function getResources(env: EnvConfig, verbose: boolean): Promise<IndexedResource[]> {
+  let resources = resourceCache.get(env.envId);
+  if (!resources) {
+    resources = loadResources(env, verbose);
+    resourceCache.set(env.envId, resources);
+  }
+  return resources;
+}
+
+async function loadResources(env: EnvConfig, verbose: boolean): Promise<IndexedResource[]> {
+  const resources: IndexedResource[] = [];
+
+  for (const type of REFERENCE_RESOURCE_TYPES) {
+    try {
+      const items = await listResources(env, type, verbose);
+      resources.push(...items.map((item) => ({ ...item, type })));
+    } catch (error) {
+      // Lacking permission for one resource type should not block the others
+      console.log(
+        `⚠ Skipping ${type} in ${env.name}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  return resources;
+}
@@ -0,0 +1,99 @@
+import type { AxiosError } from 'axios';
+import type { RetrySettings } from './types.js';
+
+export const DEFAULT_RETRY_SETTINGS: RetrySettings = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+};
+
+// Methods that can be repeated without changing the result
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'delete'];
+
+// Connection failures after which the request may or may not have reached the server
+const TRANSIENT_ERROR_CODES = [
+  'ECONNRESET',
+  'ETIMEDOUT',
+  'ECONNABORTED',
+  'EPIPE',
+  'ENETUNREACH',
+  'EHOSTUNREACH',
+];
+
+// Failures that happen before the request is sent, so any method can be retried
+const NOT_SENT_ERROR_CODES = ['ECONNREFUSED', 'EAI_AGAIN'];
+
+let retrySettings: RetrySettings = DEFAULT_RETRY_SETTINGS;
+
+export function setRetrySettings(settings: RetrySettings): void {
+  retrySettings = settings;
+}
+
+export interface RetryDecision {
+  delay: number;
+  reason: string;
+}
+
+/**
+ * Decides whether a failed request should be retried, and after how long.
+ * `attempt` is the number of the retry about to be made, starting at 1.
+ */
+export function getRetryDecision(error: AxiosError, attempt: number): RetryDecision | undefined {
+  if (attempt > retrySettings.maxRetries) {
+    return undefined;
+  }
+
+  const method = (error.config?.method ?? 'get').toLowerCase();
+  const idempotent = IDEMPOTENT_METHODS.includes(method);
+  const status = error.response?.status;
+
+  if (status !== undefined) {
+    // A rate-limited request was not processed, so even a POST is safe to repeat.
+    // Other server errors leave a POST's outcome unknown.
+    if (status !== 429 && !(status >= 500 && idempotent)) {
+      return undefined;
+    }
+
+    const retryAfter = parseRetryAfter(error.response?.headers?.['retry-after']);
+    if (retryAfter !== undefined) {
+      // Retrying before the server is ready would fail again
+      return retryAfter <= retrySettings.maxDelayMs
+        ? { delay: retryAfter, reason: `HTTP ${status}, Retry-After` }
+        : undefined;
+    }
+    return { delay: backoffDelay(attempt), reason: `HTTP ${status}` };
+  }
+
+  const code = error.code ?? '';
+  if (NOT_SENT_ERROR_CODES.includes(code) || (idempotent && TRANSIENT_ERROR_CODES.includes(code))) {
+    return { delay: backoffDelay(attempt), reason: code };
+  }
+  return undefined;
+}
+
+export function maxRetries(): number {
+  return retrySettings.maxRetries;
+}
+
+// Exponential backoff with full jitter, so parallel workers do not retry in step
+function backoffDelay(attempt: number): number {
+  const ceiling = Math.min(
+    retrySettings.maxDelayMs,
+    retrySettings.baseDelayMs * Math.pow(2, attempt - 1)
+  );
+  return Math.round(Math.random() * ceiling);
+}
+
+function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value !== 'string' || value.trim() === '') {
+    return undefined;
+  }
+
+  // Either a number of seconds or an HTTP date
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
@@ -0,0 +1,77 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  randomBytes,
+  scrypt,
+} from 'crypto';
+import { promisify } from 'util';
+
+const ENCRYPTED_PREFIX = 'enc:v1:';
+const ALGORITHM = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+export const PASSPHRASE_ENV_VAR = 'P1_FORMS_PASSPHRASE';
+
+const deriveKey = promisify(scrypt) as (
+  passphrase: string,
+  salt: Buffer,
+  keyLength: number
+) => Promise<Buffer>;
+
+export function isEncrypted(value: unknown): boolean {
+  return typeof value === 'string' && value.startsWith(ENCRYPTED_PREFIX);
+}
+
+export async function encryptSecret(
+  plaintext: string,
+  passphrase: string
+): Promise<string> {
+  const salt = randomBytes(SALT_LENGTH);
+  const iv = randomBytes(IV_LENGTH);
+  const key = await deriveKey(passphrase, salt, KEY_LENGTH);
+
+  const cipher = createCipheriv(ALGORITHM, key, iv, { authTagLength: TAG_LENGTH });
+  const ciphertext = Buffer.concat([
+    cipher.update(plaintext, 'utf-8'),
+    cipher.final(),
+  ]);
+  const tag = cipher.getAuthTag();
+
+  return (
+    ENCRYPTED_PREFIX +
+    [salt, iv, tag, ciphertext].map((part) => part.toString('base64')).join(':')
+  );
+}
+
+export async function decryptSecret(
+  value: string,
+  passphrase: string
+): Promise<string> {
+  const parts = value.slice(ENCRYPTED_PREFIX.length).split(':');
+  if (parts.length !== 4) {
+    throw new Error('Encrypted value is malformed');
+  }
+
+  const [salt, iv, tag, ciphertext] = parts.map((part) =>
+    Buffer.from(part, 'base64')
+  ) as [Buffer, Buffer, Buffer, Buffer];
+  // A shortened tag would weaken the integrity check, so only full-length ones are accepted
+  if (salt.length !== SALT_LENGTH || iv.length !== IV_LENGTH || tag.length !== TAG_LENGTH) {
+    throw new Error('Encrypted value is malformed');
+  }
+  const key = await deriveKey(passphrase, salt, KEY_LENGTH);
+
+  try {
+    const decipher = createDecipheriv(ALGORITHM, key, iv, { authTagLength: TAG_LENGTH });
+    decipher.setAuthTag(tag);
+    return Buffer.concat([
+      decipher.update(ciphertext),
+      decipher.final(),
+    ]).toString('utf-8');
+  } catch {
+    throw new Error('Wrong passphrase or corrupted encrypted value');
+  }
+}
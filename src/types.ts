@@ -1,11 +1,42 @@
 export type RegionTLD = 'com' | 'eu' | 'ca' | 'asia' | 'com.au' | 'sg';
 
+// How the worker app authenticates to the token endpoint
+export type AuthMethod = 'client_secret_basic' | 'client_secret_post' | 'private_key_jwt';
+
+export type SigningAlgorithm = 'RS256' | 'ES256';
+
 export interface EnvConfig {
   name: string;
   envId: string;
   clientId: string;
-  clientSecret: string;
+  // Required unless authMethod is private_key_jwt
+  clientSecret?: string;
   tld: RegionTLD;
+  authMethod?: AuthMethod;
+  // PEM key that signs private_key_jwt client assertions
+  privateKeyPath?: string;
+  signingAlgorithm?: SigningAlgorithm;
+  keyId?: string;
+  variables?: Record<string, string>;
+  referenceOverrides?: Record<string, string>;
+  requestsPerSecond?: number;
+}
+
+export interface ExportSettings {
+  strip: string[];
+  keep: string[];
+}
+
+export interface RetrySettings {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface AppConfig {
+  environments: EnvConfig[];
+  export: ExportSettings;
+  retry: RetrySettings;
 }
 
 export interface FormSummary {
@@ -14,13 +45,64 @@ export interface FormSummary {
   description?: string;
 }
 
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
 export interface LocalFormFile {
   filename: string;
   name: string;
   isValid: boolean;
   error?: string;
+  issues?: ValidationIssue[];
+}
+
+export interface ResourceSummary {
+  id: string;
+  name: string;
+}
+
+export interface ResourceReference {
+  type: string;
+  name: string;
+}
+
+// Resources referenced by a form, keyed by their ID in the source environment
+export type ReferenceMap = Record<string, ResourceReference>;
+
+export interface ManifestEntry {
+  formName: string;
+  sourceEnvironment: { name: string; id: string };
+  sourceFormId: string;
+  exportedAt: string;
+  contentHash: string;
+  references?: ReferenceMap;
 }
 
+export interface FormsManifest {
+  version: number;
+  forms: Record<string, ManifestEntry>;
+}
+
+export interface BundleEntry {
+  filename: string;
+  sourceFormId: string;
+  form: any;
+  references?: ReferenceMap;
+}
+
+export interface FormsBundle {
+  format: string;
+  version: number;
+  toolVersion: string;
+  sourceEnvironment: { name: string; id: string };
+  exportedAt: string;
+  forms: BundleEntry[];
+}
+
+export type UploadSource = LocalFormFile[] | FormsBundle;
+
 export interface TokenResponse {
   access_token: string;
   expires_in: number;
@@ -33,6 +115,227 @@ export interface TokenCache {
 
 export interface CliOptions {
   verbose?: boolean;
+  dryRun?: boolean;
+  config?: string;
+  formsDir?: string;
+  perEnvDirs?: boolean;
+  filenameTemplate?: string;
+  reverseVars?: boolean;
+  backupDir?: string;
+  atomic?: boolean;
+  resume?: boolean;
+  onConflict?: ConflictPolicy;
+  concurrency?: number;
+}
+
+export interface ListCommandOptions extends CliOptions {
+  env: string;
+  json?: boolean;
+}
+
+export interface ExportCommandOptions extends CliOptions {
+  env: string;
+  form?: string[];
+  all?: boolean;
+  bundle?: string;
+}
+
+export interface ImportCommandOptions extends CliOptions {
+  env: string[];
+  file?: string[];
+  all?: boolean;
+  json?: boolean;
+  bundle?: string;
+}
+
+export interface DownloadOptions {
+  interactive?: boolean;
+  formsDir?: string;
+  filenameTemplate?: string;
+  reverseVars?: boolean;
+  resume?: boolean;
+  concurrency?: number;
+}
+
+export interface UploadOptions {
+  interactive?: boolean;
+  formsDir?: string;
+  backupDir?: string;
+  atomic?: boolean;
+  resume?: boolean;
+  conflictPolicy?: ConflictPolicy;
+  concurrency?: number;
+  // Names chosen up front, e.g. once for several target environments
+  nameMap?: Map<string, FormNameChoice>;
+  // Leave the checkpoint after a clean run, e.g. until every target is done
+  keepCheckpoint?: boolean;
+}
+
+export type PlanAction = 'create' | 'update' | 'skip' | 'reject';
+
+// What to do when a form with the same name already exists in the target
+export type ConflictPolicy = 'skip' | 'overwrite' | 'rename' | 'fail';
+
+export interface FormNameChoice {
+  name: string;
+  onConflict?: ConflictPolicy;
+}
+
+export interface ImportPlanEntry {
+  filename: string;
+  name: string;
+  action: PlanAction;
+  formId?: string;
+  reason?: string;
+  conflict?: ConflictPolicy;
+}
+
+export interface ImportPlan {
+  environment: string;
+  entries: ImportPlanEntry[];
+}
+
+export type UploadAction = 'created' | 'updated' | 'unchanged' | 'skipped';
+
+export interface EnvironmentUploadResult {
+  environment: string;
+  result: UploadResult;
+}
+
+export interface UploadSuccess {
+  filename: string;
+  name: string;
+  formId: string;
+  action: UploadAction;
+}
+
+export interface UploadFailure {
+  filename: string;
+  error: string;
+}
+
+export interface UploadResult {
+  successful: UploadSuccess[];
+  failed: UploadFailure[];
+  backupRun?: string;
+  rollback?: RollbackResult;
+  interrupted?: string[];
+}
+
+export interface PromoteCommandOptions extends CliOptions {
+  from: string;
+  to: string;
+  form?: string[];
+  all?: boolean;
+  save?: boolean;
+}
+
+export interface RollbackCommandOptions extends CliOptions {
+  env: string;
+  run: string;
+}
+
+export interface PromoteOptions {
+  interactive?: boolean;
+  save?: boolean;
+  formsDir?: string;
+  filenameTemplate?: string;
+  backupDir?: string;
+}
+
+export interface PromoteSuccess {
+  name: string;
+  sourceId: string;
+  formId: string;
+  action: UploadAction;
+}
+
+export interface PromoteResult {
+  successful: PromoteSuccess[];
+  failed: { name: string; error: string }[];
+  backupRun?: string;
+}
+
+export type CheckpointOperation = 'export' | 'import';
+
+export interface Checkpoint {
+  operation: CheckpointOperation;
+  environment: { name: string; id: string };
+  startedAt: string;
+  completed: string[];
+}
+
+export type BackupAction = 'created' | 'updated';
+
+export interface BackupEntry {
+  formId: string;
+  name: string;
+  action: BackupAction;
+  snapshot?: string;
+}
+
+export interface BackupRun {
+  id: string;
+  environment: { name: string; id: string };
+  startedAt: string;
+  entries: BackupEntry[];
+}
+
+export interface BackupContext {
+  dir: string;
+  run: BackupRun;
+}
+
+export type RollbackAction = 'deleted' | 'restored';
+
+export interface RollbackResult {
+  runId: string;
+  successful: { formId: string; name: string; action: RollbackAction }[];
+  failed: { formId: string; name: string; error: string }[];
+}
+
+export interface DiffCommandOptions extends CliOptions {
+  env?: string;
+  file?: string;
+  from?: string;
+  to?: string;
+  form?: string;
+}
+
+export type DiffKind = 'added' | 'removed' | 'changed';
+
+export interface DiffEntry {
+  path: string;
+  kind: DiffKind;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface StatusCommandOptions extends CliOptions {
+  env: string;
+  json?: boolean;
+}
+
+export interface StatusEntry {
+  name: string;
+  filename?: string;
+  formId?: string;
+  error?: string;
+}
+
+export interface StatusReport {
+  environment: string;
+  onlyLocal: StatusEntry[];
+  onlyRemote: StatusEntry[];
+  identical: StatusEntry[];
+  changed: StatusEntry[];
+  invalid: StatusEntry[];
+}
+
+export interface ValidateCommandOptions extends CliOptions {
+  env?: string;
+  file?: string[];
+  json?: boolean;
 }
 
-export type OperationMode = 'export' | 'import';
+export type OperationMode = 'export' | 'import' | 'promote';
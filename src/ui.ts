@@ -1,5 +1,13 @@
 import inquirer from 'inquirer';
-import type { EnvConfig, OperationMode, FormSummary, LocalFormFile } from './types.js';
+import { DEFAULT_CONFLICT_POLICY } from './conflicts.js';
+import type {
+  EnvConfig,
+  OperationMode,
+  FormSummary,
+  LocalFormFile,
+  ConflictPolicy,
+  FormNameChoice,
+} from './types.js';
 
 export async function selectMode(): Promise<OperationMode> {
   const { mode } = await inquirer.prompt([
@@ -10,6 +18,7 @@ export async function selectMode(): Promise<OperationMode> {
       choices: [
         { name: 'Export PingOne Forms', value: 'export' },
         { name: 'Import PingOne Forms', value: 'import' },
+        { name: 'Promote PingOne Forms between environments', value: 'promote' },
       ],
     },
   ]);
@@ -43,6 +52,34 @@ export async function selectEnvironment(
   return env;
 }
 
+export async function selectTargetEnvironments(
+  environments: EnvConfig[]
+): Promise<EnvConfig[]> {
+  const sortedEnvs = [...environments].sort((a, b) =>
+    a.name.localeCompare(b.name)
+  );
+
+  const { envs } = await inquirer.prompt([
+    {
+      type: 'checkbox',
+      name: 'envs',
+      message: 'Select target environment(s):',
+      choices: sortedEnvs.map((env) => ({
+        name: env.name,
+        value: env,
+        checked: false,
+      })),
+      validate: (input: EnvConfig[]) => {
+        if (input.length === 0) {
+          return 'Please select at least one environment.';
+        }
+        return true;
+      },
+    },
+  ]);
+  return envs;
+}
+
 export async function selectForms(forms: FormSummary[]): Promise<FormSummary[]> {
   if (forms.length === 0) {
     console.log('No forms found in the selected environment.');
@@ -71,10 +108,11 @@ export async function selectForms(forms: FormSummary[]): Promise<FormSummary[]>
 }
 
 export async function selectLocalForms(
-  localForms: LocalFormFile[]
+  localForms: LocalFormFile[],
+  formsDir = './forms'
 ): Promise<LocalFormFile[]> {
   if (localForms.length === 0) {
-    console.log('No JSON files found in ./forms directory.');
+    console.log(`No JSON files found in ${formsDir} directory.`);
     return [];
   }
 
@@ -82,15 +120,22 @@ export async function selectLocalForms(
   const invalidForms = localForms.filter((form) => !form.isValid);
 
   if (invalidForms.length > 0) {
-    console.log('Warning: Found invalid JSON files:');
+    console.log('Warning: Found invalid form files:');
     invalidForms.forEach((form) => {
-      console.log(`  - ${form.filename}: ${form.error}`);
+      if (form.issues?.length) {
+        console.log(`  - ${form.filename}:`);
+        form.issues.forEach((issue) => {
+          console.log(`      ${issue.path}: ${issue.message}`);
+        });
+      } else {
+        console.log(`  - ${form.filename}: ${form.error}`);
+      }
     });
     console.log('');
   }
 
   if (validForms.length === 0) {
-    console.log('No valid JSON files found in ./forms directory.');
+    console.log(`No valid JSON files found in ${formsDir} directory.`);
     return [];
   }
 
@@ -168,13 +213,15 @@ export async function promptForOverwrite(
 
 export async function promptForMultipleFormNames(
   formsWithData: { localForm: LocalFormFile; formData: any }[],
-  verbose = false
-): Promise<Map<string, string>> {
+  verbose = false,
+  existingForms: FormSummary[] = [],
+  defaultPolicy: ConflictPolicy = DEFAULT_CONFLICT_POLICY
+): Promise<Map<string, FormNameChoice>> {
   if (verbose) {
     console.log(`Prompting for names for ${formsWithData.length} forms`);
   }
 
-  const nameMap = new Map<string, string>();
+  const nameMap = new Map<string, FormNameChoice>();
 
   console.log('\n=== Configure Form Names ===');
   console.log('You can customize the name for each form before import:\n');
@@ -200,12 +247,65 @@ export async function promptForMultipleFormNames(
       },
     ]);
 
-    nameMap.set(localForm.filename, formName);
+    const onConflict = existingForms.some((form) => form.name === formName)
+      ? await promptForConflictPolicy(formName, defaultPolicy)
+      : defaultPolicy;
+
+    nameMap.set(localForm.filename, { name: formName, onConflict });
 
     if (verbose) {
-      console.log(`Set name for ${localForm.filename}: "${formName}"`);
+      console.log(`Set name for ${localForm.filename}: "${formName}" (on conflict: ${onConflict})`);
     }
   }
 
   return nameMap;
 }
+
+export async function promptForConflictPolicy(
+  formName: string,
+  defaultPolicy: ConflictPolicy = DEFAULT_CONFLICT_POLICY
+): Promise<ConflictPolicy> {
+  const { policy } = await inquirer.prompt([
+    {
+      type: 'list',
+      name: 'policy',
+      message: `A form named "${formName}" already exists in the target. What should happen?`,
+      default: defaultPolicy,
+      choices: [
+        { name: 'Overwrite it, keeping its ID', value: 'overwrite' },
+        { name: 'Skip this form', value: 'skip' },
+        { name: `Import as a new form, e.g. "${formName} (2)"`, value: 'rename' },
+        { name: 'Fail this form', value: 'fail' },
+      ],
+    },
+  ]);
+  return policy;
+}
+
+export async function promptForPassphrase(confirm = false): Promise<string> {
+  const { passphrase } = await inquirer.prompt([
+    {
+      type: 'password',
+      name: 'passphrase',
+      mask: '*',
+      message: 'Enter passphrase for encrypted secrets:',
+      validate: (input: string) =>
+        input.length > 0 ? true : 'Passphrase cannot be empty.',
+    },
+  ]);
+
+  if (confirm) {
+    await inquirer.prompt([
+      {
+        type: 'password',
+        name: 'confirmation',
+        mask: '*',
+        message: 'Confirm passphrase:',
+        validate: (input: string) =>
+          input === passphrase ? true : 'Passphrases do not match.',
+      },
+    ]);
+  }
+
+  return passphrase;
+}
@@ -0,0 +1,164 @@
+import type { ValidationIssue } from './types.js';
+
+const MAX_NAME_LENGTH = 100;
+
+const STRING_PROPERTIES = ['description', 'translationMethod'];
+const BOOLEAN_PROPERTIES = ['markRequired', 'markOptional'];
+const FIELD_STRING_PROPERTIES = ['key', 'label'];
+const FIELD_BOOLEAN_PROPERTIES = ['required'];
+
+export function validateForm(formData: unknown): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  if (!isPlainObject(formData)) {
+    issues.push({ path: '(root)', message: 'Form must be a JSON object' });
+    return issues;
+  }
+
+  issues.push(...validateFormName(formData.name));
+
+  checkTypes(formData, '', STRING_PROPERTIES, 'string', issues);
+  checkTypes(formData, '', BOOLEAN_PROPERTIES, 'boolean', issues);
+
+  if (formData.cols !== undefined && !isNonNegativeInteger(formData.cols)) {
+    issues.push({ path: 'cols', message: 'Expected a non-negative integer' });
+  }
+
+  if (!isPlainObject(formData.components)) {
+    issues.push({
+      path: 'components',
+      message: 'Form components are required and must be an object',
+    });
+    return issues;
+  }
+
+  const fields = formData.components.fields;
+  if (!Array.isArray(fields)) {
+    issues.push({
+      path: 'components.fields',
+      message: 'Expected an array of fields',
+    });
+    return issues;
+  }
+
+  const seenKeys = new Map<string, number>();
+  fields.forEach((field, index) => {
+    validateField(field, `components.fields[${index}]`, index, seenKeys, issues);
+  });
+
+  return issues;
+}
+
+export function validateFormName(name: unknown): ValidationIssue[] {
+  if (typeof name !== 'string' || name.trim().length === 0) {
+    return [{ path: 'name', message: 'Form name is required' }];
+  }
+  if (name.trim().length > MAX_NAME_LENGTH) {
+    return [{ path: 'name', message: `Form name cannot exceed ${MAX_NAME_LENGTH} characters` }];
+  }
+  return [];
+}
+
+export function formatValidationIssues(issues: ValidationIssue[]): string {
+  return issues.map((issue) => `${issue.path}: ${issue.message}`).join('; ');
+}
+
+function validateField(
+  field: unknown,
+  path: string,
+  index: number,
+  seenKeys: Map<string, number>,
+  issues: ValidationIssue[]
+): void {
+  if (!isPlainObject(field)) {
+    issues.push({ path, message: 'Field must be an object' });
+    return;
+  }
+
+  if (typeof field.type !== 'string' || field.type.length === 0) {
+    issues.push({ path: `${path}.type`, message: 'Field type is required' });
+  }
+
+  checkTypes(field, path, FIELD_STRING_PROPERTIES, 'string', issues);
+  checkTypes(field, path, FIELD_BOOLEAN_PROPERTIES, 'boolean', issues);
+
+  if (field.position !== undefined) {
+    if (!isPlainObject(field.position)) {
+      issues.push({ path: `${path}.position`, message: 'Expected an object' });
+    } else {
+      for (const axis of ['row', 'col', 'width']) {
+        const value = field.position[axis];
+        if (value !== undefined && !isNonNegativeInteger(value)) {
+          issues.push({
+            path: `${path}.position.${axis}`,
+            message: 'Expected a non-negative integer',
+          });
+        }
+      }
+    }
+  }
+
+  if (typeof field.key === 'string') {
+    const firstIndex = seenKeys.get(field.key);
+    if (firstIndex !== undefined) {
+      issues.push({
+        path: `${path}.key`,
+        message: `Duplicate field key "${field.key}" (also used by components.fields[${firstIndex}])`,
+      });
+    } else {
+      seenKeys.set(field.key, index);
+    }
+  }
+
+  if (field.options !== undefined) {
+    if (!Array.isArray(field.options)) {
+      issues.push({ path: `${path}.options`, message: 'Expected an array' });
+    } else {
+      field.options.forEach((option, optionIndex) => {
+        const optionPath = `${path}.options[${optionIndex}]`;
+        if (!isPlainObject(option)) {
+          issues.push({ path: optionPath, message: 'Option must be an object' });
+          return;
+        }
+        for (const property of ['label', 'value']) {
+          if (typeof option[property] !== 'string') {
+            issues.push({
+              path: `${optionPath}.${property}`,
+              message: 'Expected a string',
+            });
+          }
+        }
+      });
+    }
+  }
+
+  if (field.validation !== undefined && !isPlainObject(field.validation)) {
+    issues.push({ path: `${path}.validation`, message: 'Expected an object' });
+  }
+}
+
+function checkTypes(
+  target: Record<string, unknown>,
+  path: string,
+  properties: string[],
+  expected: 'string' | 'boolean',
+  issues: ValidationIssue[]
+): void {
+  for (const property of properties) {
+    const value = target[property];
+    if (value !== undefined && typeof value !== expected) {
+      issues.push({
+        path: path ? `${path}.${property}` : property,
+        message: `Expected a ${expected}`,
+      });
+    }
+  }
+}
+
+function isNonNegativeInteger(value: unknown): boolean {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
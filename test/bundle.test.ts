@@ -0,0 +1,95 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, writeFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { readBundle, BUNDLE_FORMAT } from '../src/bundle.js';
+
+const dir = await mkdtemp(join(tmpdir(), 'p1-forms-bundle-'));
+
+after(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+function bundleWith(overrides: Record<string, unknown>): Record<string, unknown> {
+  return {
+    format: BUNDLE_FORMAT,
+    version: 1,
+    toolVersion: '1.0.0',
+    sourceEnvironment: { name: 'Dev US', id: 'env-1' },
+    exportedAt: '2024-01-01T00:00:00.000Z',
+    forms: [
+      { filename: 'sign-up.json', sourceFormId: 'form-1', form: { name: 'Sign Up' } },
+    ],
+    ...overrides,
+  };
+}
+
+async function writeBundleFile(name: string, content: unknown): Promise<string> {
+  const path = join(dir, name);
+  await writeFile(path, JSON.stringify(content), 'utf-8');
+  return path;
+}
+
+test('reads a well-formed bundle', async () => {
+  const path = await writeBundleFile('valid.json', bundleWith({}));
+  const bundle = await readBundle(path);
+  assert.equal(bundle.forms.length, 1);
+  assert.equal(bundle.sourceEnvironment.id, 'env-1');
+});
+
+test('rejects a bundle without a source environment', async () => {
+  const path = await writeBundleFile('no-source.json', bundleWith({ sourceEnvironment: undefined }));
+  await assert.rejects(readBundle(path), /no "sourceEnvironment"/);
+});
+
+test('rejects a source environment without a string id', async () => {
+  const path = await writeBundleFile(
+    'source-id.json',
+    bundleWith({ sourceEnvironment: { name: 'Dev US', id: 42 } })
+  );
+  await assert.rejects(readBundle(path), /no "sourceEnvironment"/);
+});
+
+test('names the entry without a filename', async () => {
+  const path = await writeBundleFile(
+    'no-filename.json',
+    bundleWith({
+      forms: [
+        { filename: 'a.json', sourceFormId: 'form-1', form: {} },
+        { sourceFormId: 'form-2', form: {} },
+      ],
+    })
+  );
+  await assert.rejects(readBundle(path), (error: Error) => {
+    assert.ok(error.message.includes(path));
+    assert.match(error.message, /entry 1 has no "filename"/);
+    return true;
+  });
+});
+
+test('rejects repeated filenames', async () => {
+  const path = await writeBundleFile(
+    'duplicate.json',
+    bundleWith({
+      forms: [
+        { filename: 'a.json', sourceFormId: 'form-1', form: {} },
+        { filename: 'a.json', sourceFormId: 'form-2', form: {} },
+      ],
+    })
+  );
+  await assert.rejects(readBundle(path), /entry 1 repeats filename a\.json/);
+});
+
+test('rejects an entry whose form is not an object', async () => {
+  const path = await writeBundleFile(
+    'bad-form.json',
+    bundleWith({ forms: [{ filename: 'a.json', sourceFormId: 'form-1', form: 'oops' }] })
+  );
+  await assert.rejects(readBundle(path), /entry 0 \(a\.json\) has no "form" object/);
+});
+
+test('rejects an entry that is not an object', async () => {
+  const path = await writeBundleFile('null-entry.json', bundleWith({ forms: [null] }));
+  await assert.rejects(readBundle(path), /entry 0 is not an object/);
+});
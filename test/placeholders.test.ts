@@ -0,0 +1,62 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { insertPlaceholders, resolvePlaceholders } from '../src/placeholders.js';
+
+test('replaces a value that stands on its own', () => {
+  const form = { label: 'Region eu', url: 'https://example.com/eu/help' };
+  assert.deepEqual(insertPlaceholders(form, { region: 'eu' }), {
+    label: 'Region {{ var.region }}',
+    url: 'https://example.com/{{ var.region }}/help',
+  });
+});
+
+test('leaves values inside words alone', () => {
+  const form = { title: 'Neuer Benutzer', note: 'Europe' };
+  assert.deepEqual(insertPlaceholders(form, { region: 'eu' }), form);
+});
+
+test('prefers the longest of overlapping values', () => {
+  const form = { url: 'https://qa.example.eu/help' };
+  const variables = { host: 'qa.example.eu', region: 'eu' };
+  assert.deepEqual(insertPlaceholders(form, variables), {
+    url: 'https://{{ var.host }}/help',
+  });
+});
+
+test('does not rescan placeholders it has inserted', () => {
+  // "var" appears inside the placeholder written for "supportUrl"
+  const form = { text: 'See https://help.example.com today' };
+  const variables = { supportUrl: 'https://help.example.com', word: 'var' };
+  assert.deepEqual(insertPlaceholders(form, variables), {
+    text: 'See {{ var.supportUrl }} today',
+  });
+});
+
+test('round-trips through resolvePlaceholders', () => {
+  const form = { fields: [{ label: 'Contact support@example.eu or call' }] };
+  const variables = { email: 'support@example.eu' };
+  const { formData, missing } = resolvePlaceholders(
+    insertPlaceholders(form, variables),
+    variables
+  );
+  assert.deepEqual(formData, form);
+  assert.deepEqual(missing, []);
+});
+
+test('wholeValues only replaces exact matches', () => {
+  const form = { url: 'https://dev.example.com', label: 'Open https://dev.example.com' };
+  const result = insertPlaceholders(
+    form,
+    { baseUrl: 'https://dev.example.com' },
+    { wholeValues: true }
+  );
+  assert.deepEqual(result, {
+    url: '{{ var.baseUrl }}',
+    label: 'Open https://dev.example.com',
+  });
+});
+
+test('ignores empty values', () => {
+  const form = { label: 'Sign up' };
+  assert.deepEqual(insertPlaceholders(form, { blank: '' }), form);
+});